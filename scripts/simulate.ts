@@ -0,0 +1,73 @@
+// ==================== SIMULATOR CLI ====================
+// Usage: npm run simulate -- --strategy expectimax --games 200 --depth 2
+//   --strategy  random | corner | expectimax   (default corner)
+//   --rules     classic | fibonacci | threes   (default classic)
+//   --games     number of games to play        (default 1000)
+//   --size      board size                     (default 4)
+//   --seed      seed of the first game; game N uses seed + N (default 1)
+//   --depth     expectimax search depth        (default 2)
+//   --max-moves per-game move cap              (default 100000)
+//   --format    json | csv                     (default json)
+//   --out       write to this file instead of stdout
+import { writeFileSync } from 'node:fs';
+import { DEFAULT_OPTIONS, runSimulation, toCsv, toJson } from '../src/simulator';
+import type { SimulationOptions, StrategyName } from '../src/simulator';
+import { RULE_SET_ORDER, RULE_SETS, isRuleSetId } from '../src/rules';
+
+const STRATEGIES: StrategyName[] = ['random', 'corner', 'expectimax'];
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? '';
+      i++;
+    }
+  }
+  return args;
+};
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const args = parseArgs(process.argv.slice(2));
+
+const toInt = (name: string, fallback: number): number => {
+  if (args[name] === undefined) return fallback;
+  const value = parseInt(args[name], 10);
+  return Number.isFinite(value) && value >= 0 ? value : fail(`--${name} must be a non-negative integer`);
+};
+
+const strategy = (args.strategy ?? DEFAULT_OPTIONS.strategy) as StrategyName;
+if (!STRATEGIES.includes(strategy)) fail(`--strategy must be one of ${STRATEGIES.join(', ')}`);
+
+const ruleSet = args.rules ?? DEFAULT_OPTIONS.ruleSet;
+if (!isRuleSetId(ruleSet)) fail(`--rules must be one of ${RULE_SET_ORDER.join(', ')}`);
+
+const format = args.format ?? 'json';
+if (format !== 'json' && format !== 'csv') fail('--format must be json or csv');
+
+const options: SimulationOptions = {
+  strategy,
+  ruleSet: ruleSet as SimulationOptions['ruleSet'],
+  games: toInt('games', DEFAULT_OPTIONS.games),
+  size: toInt('size', DEFAULT_OPTIONS.size),
+  seed: toInt('seed', DEFAULT_OPTIONS.seed),
+  depth: toInt('depth', DEFAULT_OPTIONS.depth),
+  maxMoves: toInt('max-moves', DEFAULT_OPTIONS.maxMoves),
+};
+
+const started = Date.now();
+const report = runSimulation(options, (completed, total) => {
+  if (completed % 10 === 0 || completed === total) {
+    process.stderr.write(`\r${completed}/${total} games`);
+  }
+});
+process.stderr.write(`\n${options.strategy}: mean score ${report.score.mean.toFixed(0)}, ` +
+  `${RULE_SETS[options.ruleSet].winValue} rate ${(report.winRate * 100).toFixed(1)}% in ${((Date.now() - started) / 1000).toFixed(1)}s\n`);
+
+const output = format === 'csv' ? toCsv(report) : toJson(report);
+if (args.out) writeFileSync(args.out, output);
+else process.stdout.write(output);
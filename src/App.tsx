@@ -1,48 +1,145 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import './App.css';
+import {
+  DAILY_BOARD_SIZE,
+  buildShareText,
+  createDailyResult,
+  getDailySeed,
+  getTodayKey,
+  loadDailyHistory,
+  saveDailyResult,
+  toDateKey,
+} from './daily';
+import type { DailyHistory, DailyResult } from './daily';
+import { buildGrid, checkTimeLimit, createGame, getHighestTile, move } from './engine';
+import type { ChaosRates, Direction, GameState, Tile, TileKind } from './engine';
+import { MODES, MODE_ORDER, addModeRecord, isGameModeId } from './modes';
+import { RULE_SETS, RULE_SET_ORDER, isRuleSetId, toClassicValue } from './rules';
+import type { RuleSetId } from './rules';
+import type { GameModeId, ModeRecord, RecordMetric } from './modes';
+import { createRng, formatSeed, toRandomSource } from './rng';
+import type { Rng } from './rng';
+import { buildReplayFrames, recordMove, startRecording } from './recording';
+import type { GameRecording } from './recording';
+import { clearSavedGame, loadSavedGame, saveGame, saveGameTime } from './savegame';
+import { addGameHistory, averageOf, bestScoresBy, countHighestTiles, getWinStreaks, loadGameHistory } from './history';
+import type { GameHistoryEntry, GameOutcome } from './history';
+import { DEFAULT_UNDO_SETTINGS, EARN_UNDO_TILE, UNDO_LIMITS, canUndo, getStartingUndos } from './undo';
+import type { Snapshot, UndoPolicy, UndoSettings } from './undo';
+import {
+  ACHIEVEMENTS,
+  findNewUnlocks,
+  loadThemesPlayed,
+  loadUnlockedAchievements,
+  markThemePlayed,
+  saveUnlocks,
+} from './achievements';
+import type { Achievement, AchievementContext, UnlockedAchievements } from './achievements';
+import { SLIDE_MS, planSlide, toSlideFrame } from './animation';
+import { describeCell, describeMove, trapFocus } from './a11y';
+import {
+  DEFAULT_GAMEPAD_MAPPING,
+  DEFAULT_KEY_BINDINGS,
+  DEFAULT_SHORTCUTS,
+  InputManager,
+  bindKey,
+  bindShortcut,
+  findBoundDirection,
+  findShortcut,
+  formatButton,
+  formatKey,
+  isReservedKey,
+  remapButton,
+  toAriaShortcut,
+} from './input';
+import type { GamepadAction, GamepadMapping, InputAction, KeyBindings, ShortcutBindings } from './input';
+import type { SavedGame } from './savegame';
+import { DIFFICULTY_DEPTH, DIRECTIONS } from './solver';
+import type { Difficulty } from './solver';
+import { solverClient } from './solverClient';
+import {
+  MAX_PARTICLES,
+  PARTICLE_INTENSITY,
+  createEnhancedFireworks,
+  createMilestoneFireworks,
+  drawParticles,
+  thinParticles,
+  updateParticles,
+} from './particles';
+import type { ParticleIntensity } from './particles';
+import {
+  MIN_TILE_CONTRAST,
+  THEME_TILE_VALUES,
+  contrastRatio,
+  createCustomThemeId,
+  exportThemeJson,
+  getThemeOrder,
+  getTileColor,
+  isCustomTheme,
+  loadCustomThemes,
+  parseThemeJson,
+  saveCustomThemes,
+  setCustomThemes,
+  themes,
+  tileTextColor,
+} from './themes';
+import type { CustomTheme, Theme, ThemePalette } from './themes';
+import type { Particle } from './particles';
 
 // ==================== TYPES ====================
-type Direction = 'up' | 'down' | 'left' | 'right';
-type Theme = 'light' | 'dark' | 'neon' | 'sunset' | 'ocean' | 'forest';
+type MotionPreference = 'system' | 'reduced' | 'full';
 
-interface Tile {
-  id: string;
-  value: number;
-  row: number;
-  col: number;
-  isNew?: boolean;
-  justMerged?: boolean;
-}
-
-interface GameState {
-  tiles: Tile[];
-  score: number;
-  moves: number;
-  comboCount: number;
-  gameOver: boolean;
-  won: boolean;
-}
+// How big tile values are written on large boards: 32768, 32k or 2¹⁵
+type TileNotation = 'full' | 'short' | 'power';
 
 interface GameEngine {
   state: GameState;
-  history: GameState[];
+  // Positions before each move, and moves taken back that redo can restore
+  history: Snapshot[];
+  future: Snapshot[];
+  undoPolicy: UndoPolicy;
+  // Fixed when the game starts, like the policy, so it can't be switched off
+  // mid-game to re-roll a spawn
+  keepSpawns: boolean;
   undosRemaining: number;
+  undosUsed: number;
   highScore: number;
+  // Whether undo was used in the game that set the high score
+  highScoreUsedUndo: boolean;
+  rng: Rng;
+  recording: GameRecording;
+  dailyDate: string | null;
+  chaos: ChaosRates | null;
 }
 
-interface Particle {
-  id: string;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  color: string;
-  size: number;
-  type: 'regular' | 'firework' | 'spark' | 'trail' | 'star' | 'heart' | 'triangle' | 'ring';
-  rotation?: number;
-  rotationSpeed?: number;
-  pulsePhase?: number;
+interface Settings {
+  theme: Theme;
+  soundEnabled: boolean;
+  volume: number;
+  hapticsEnabled: boolean;
+  motion: MotionPreference;
+  particleIntensity: ParticleIntensity;
+  tileNotation: TileNotation;
+  chaos: ChaosSettings;
+  undo: UndoSettings;
+  keyBindings: KeyBindings;
+  // Single-key shortcuts can be turned off, so stray key presses and speech
+  // input never trigger them
+  shortcutsEnabled: boolean;
+  shortcuts: ShortcutBindings;
+  gamepadMapping: GamepadMapping;
+}
+
+// Special tile spawn rates, used for new games while enabled
+interface ChaosSettings extends ChaosRates {
+  enabled: boolean;
+}
+
+// How long the very first win took, from the start of that game
+interface FirstWin {
+  time: number;
+  moves: number;
+  date: string;
 }
 
 interface Stats {
@@ -51,10 +148,20 @@ interface Stats {
   totalScore: number;
   bestCombo: number;
   highestTile: number;
+  firstWin: FirstWin | null;
+  gamesWithUndo: number;
 }
 
 // ==================== HAPTIC FEEDBACK ====================
+let hapticsEnabled = true;
+
+const setHapticsEnabled = (enabled: boolean) => {
+  hapticsEnabled = enabled;
+};
+
 const triggerHaptic = (style: 'light' | 'medium' | 'heavy' = 'light') => {
+  if (!hapticsEnabled) return;
+
   // Check if iOS (haptics not supported via vibrate API)
   const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent) || 
                 (navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1);
@@ -78,269 +185,216 @@ const triggerHaptic = (style: 'light' | 'medium' | 'heavy' = 'light') => {
 };
 
 // ==================== GAME ENGINE ====================
-let nextId = 0;
-
-const createEmptyState = (): GameState => ({
-  tiles: [],
-  score: 0,
-  moves: 0,
-  comboCount: 0,
-  gameOver: false,
-  won: false,
-});
+const BOARD_SIZES = [3, 4, 5, 6, 7, 8];
+const DEFAULT_BOARD_SIZE = 4;
 
-const loadHighScore = (): number => {
-  const saved = localStorage.getItem('zipperMergeHighScore');
-  return saved ? parseInt(saved, 10) : 0;
-};
+// Scores are kept per board size and rule set. The classic 4x4 keeps the
+// original unsuffixed keys so existing high scores and stats carry over.
+const sizedKey = (key: string, size: number, ruleSet: RuleSetId = 'classic') =>
+  (size === DEFAULT_BOARD_SIZE ? key : `${key}_${size}x${size}`) + (ruleSet === 'classic' ? '' : `_${ruleSet}`);
 
-const saveHighScore = (score: number) => {
-  localStorage.setItem('zipperMergeHighScore', score.toString());
+const loadBoardSize = (): number => {
+  const saved = parseInt(localStorage.getItem('zipperMergeBoardSize') || '', 10);
+  return BOARD_SIZES.includes(saved) ? saved : DEFAULT_BOARD_SIZE;
 };
 
-const loadStats = (): Stats => {
-  const saved = localStorage.getItem('zipperMergeStats');
-  return saved
-    ? JSON.parse(saved)
-    : { gamesPlayed: 0, gamesWon: 0, totalScore: 0, bestCombo: 0, highestTile: 0 };
+const saveBoardSize = (size: number) => {
+  localStorage.setItem('zipperMergeBoardSize', size.toString());
 };
 
-const saveStats = (stats: Stats) => {
-  localStorage.setItem('zipperMergeStats', JSON.stringify(stats));
+const loadGameMode = (): GameModeId => {
+  const saved = localStorage.getItem('zipperMergeGameMode');
+  return isGameModeId(saved) ? saved : 'classic';
 };
 
-const initGame = (size = 4): GameEngine => {
-  nextId = 0;
-  const state = createEmptyState();
-  spawnTile(state, size);
-  spawnTile(state, size);
-  return {
-    state,
-    history: [],
-    undosRemaining: 3,
-    highScore: loadHighScore(),
-  };
+const saveGameMode = (mode: GameModeId) => {
+  localStorage.setItem('zipperMergeGameMode', mode);
 };
 
-const spawnTile = (state: GameState, size: number): void => {
-  const emptyCells: { row: number; col: number }[] = [];
-  for (let row = 0; row < size; row++) {
-    for (let col = 0; col < size; col++) {
-      if (!state.tiles.some((t) => t.row === row && t.col === col)) {
-        emptyCells.push({ row, col });
-      }
-    }
-  }
-
-  if (emptyCells.length === 0) return;
-
-  const cell = emptyCells[Math.floor(Math.random() * emptyCells.length)];
-  const value = Math.random() < 0.9 ? 2 : 4;
-
-  state.tiles.push({
-    id: `tile-${nextId++}`,
-    value,
-    row: cell.row,
-    col: cell.col,
-    isNew: true,
-  });
+const loadRuleSet = (): RuleSetId => {
+  const saved = localStorage.getItem('zipperMergeRuleSet');
+  return isRuleSetId(saved) ? saved : 'classic';
 };
 
-const buildGrid = (tiles: Tile[], size: number): (Tile | null)[][] => {
-  const grid: (Tile | null)[][] = Array(size)
-    .fill(null)
-    .map(() => Array(size).fill(null));
-  tiles.forEach((tile) => {
-    grid[tile.row][tile.col] = tile;
-  });
-  return grid;
+const saveRuleSet = (ruleSet: RuleSetId) => {
+  localStorage.setItem('zipperMergeRuleSet', ruleSet);
 };
 
-const getVector = (direction: Direction): { row: number; col: number } => {
-  return {
-    up: { row: -1, col: 0 },
-    down: { row: 1, col: 0 },
-    left: { row: 0, col: -1 },
-    right: { row: 0, col: 1 },
-  }[direction];
+const loadHighScore = (size: number, ruleSet: RuleSetId): number => {
+  const saved = localStorage.getItem(sizedKey('zipperMergeHighScore', size, ruleSet));
+  return saved ? parseInt(saved, 10) : 0;
 };
 
-const getTraversals = (direction: Direction, size: number) => {
-  const rows = Array.from({ length: size }, (_, i) => i);
-  const cols = Array.from({ length: size }, (_, i) => i);
+const loadHighScoreUsedUndo = (size: number, ruleSet: RuleSetId): boolean =>
+  localStorage.getItem(sizedKey('zipperMergeHighScoreUndo', size, ruleSet)) === 'true';
 
-  if (direction === 'down') rows.reverse();
-  if (direction === 'right') cols.reverse();
-
-  return { rows, cols };
+const saveHighScore = (score: number, size: number, ruleSet: RuleSetId, usedUndo: boolean) => {
+  localStorage.setItem(sizedKey('zipperMergeHighScore', size, ruleSet), score.toString());
+  localStorage.setItem(sizedKey('zipperMergeHighScoreUndo', size, ruleSet), usedUndo.toString());
 };
 
-const findFarthestPosition = (
-  position: { row: number; col: number },
-  vector: { row: number; col: number },
-  grid: (Tile | null)[][],
-  size: number
-) => {
-  let previous = position;
-
-  while (true) {
-    const next = {
-      row: previous.row + vector.row,
-      col: previous.col + vector.col,
-    };
+const loadStats = (size: number, ruleSet: RuleSetId): Stats => {
+  const saved = localStorage.getItem(sizedKey('zipperMergeStats', size, ruleSet));
+  const defaults: Stats = {
+    gamesPlayed: 0,
+    gamesWon: 0,
+    totalScore: 0,
+    bestCombo: 0,
+    highestTile: 0,
+    firstWin: null,
+    gamesWithUndo: 0,
+  };
+  return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+};
 
-    if (next.row < 0 || next.row >= size || next.col < 0 || next.col >= size) {
-      break;
-    }
+const saveStats = (stats: Stats, size: number, ruleSet: RuleSetId) => {
+  localStorage.setItem(sizedKey('zipperMergeStats', size, ruleSet), JSON.stringify(stats));
+};
 
-    if (grid[next.row][next.col] !== null) {
-      return { farthest: previous, next: next };
-    }
+// Every board size and rule set together, so career achievements count all games
+const loadCareerStats = (): AchievementContext['stats'] =>
+  BOARD_SIZES.flatMap((size) => RULE_SET_ORDER.map((ruleSet) => loadStats(size, ruleSet))).reduce(
+    (total, stats) => ({
+      gamesPlayed: total.gamesPlayed + stats.gamesPlayed,
+      gamesWon: total.gamesWon + stats.gamesWon,
+      totalScore: total.totalScore + stats.totalScore,
+      bestCombo: Math.max(total.bestCombo, stats.bestCombo),
+    }),
+    { gamesPlayed: 0, gamesWon: 0, totalScore: 0, bestCombo: 0 }
+  );
 
-    previous = next;
+// Modes other than classic keep a separate ranked table instead of
+// zipperMergeHighScore
+const loadModeRecords = (mode: GameModeId, size: number, ruleSet: RuleSetId): ModeRecord[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(sizedKey(`zipperMergeRecords_${mode}`, size, ruleSet)) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
   }
-
-  return { farthest: previous, next: null };
 };
 
-const moveTile = (
-  tile: Tile,
-  position: { row: number; col: number },
-  tiles: Tile[],
-  grid: (Tile | null)[][]
-) => {
-  grid[tile.row][tile.col] = null;
-  tile.row = position.row;
-  tile.col = position.col;
-  grid[position.row][position.col] = tile;
+const saveModeRecords = (records: ModeRecord[], mode: GameModeId, size: number, ruleSet: RuleSetId) => {
+  localStorage.setItem(sizedKey(`zipperMergeRecords_${mode}`, size, ruleSet), JSON.stringify(records));
 };
 
-const move = (engine: GameEngine, direction: Direction, size = 4): boolean => {
-  engine.state.tiles.forEach((t) => {
-    t.justMerged = false;
-    t.isNew = false;
-  });
-
-  const vector = getVector(direction);
-  const traversals = getTraversals(direction, size);
-  let moved = false;
-  let grid = buildGrid(engine.state.tiles, size);
-  const mergedPositions = new Set<string>();
-
-  engine.state.comboCount = 0;
-
-  for (const row of traversals.rows) {
-    for (const col of traversals.cols) {
-      const tile = grid[row][col];
-      if (tile === null) continue;
-
-      const positions = findFarthestPosition({ row, col }, vector, grid, size);
-      const next = positions.next;
-
-      if (next && grid[next.row][next.col]) {
-        const nextTile = grid[next.row][next.col]!;
-        const mergeKey = `${next.row},${next.col}`;
-
-        if (nextTile.value === tile.value && !mergedPositions.has(mergeKey)) {
-          const merged: Tile = {
-            id: nextTile.id,
-            value: tile.value * 2,
-            row: next.row,
-            col: next.col,
-            justMerged: true,
-          };
-
-          engine.state.score += merged.value;
-          engine.state.comboCount++;
-
-          const idx = engine.state.tiles.indexOf(tile);
-          if (idx !== -1) engine.state.tiles.splice(idx, 1);
-
-          const nextIdx = engine.state.tiles.indexOf(nextTile);
-          if (nextIdx !== -1) {
-            engine.state.tiles[nextIdx] = merged;
-          }
-
-          grid[next.row][next.col] = merged;
-          mergedPositions.add(mergeKey);
-          moved = true;
+const DEFAULT_SETTINGS: Settings = {
+  theme: 'light',
+  soundEnabled: true,
+  volume: 0.5,
+  hapticsEnabled: true,
+  motion: 'system',
+  particleIntensity: 'high',
+  tileNotation: 'full',
+  chaos: { enabled: false, stone: 0.03, wildcard: 0.03, bomb: 0.02 },
+  undo: DEFAULT_UNDO_SETTINGS,
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  shortcutsEnabled: true,
+  shortcuts: DEFAULT_SHORTCUTS,
+  gamepadMapping: DEFAULT_GAMEPAD_MAPPING,
+};
 
-          if (merged.value === 2048 && !engine.state.won) {
-            engine.state.won = true;
-          }
-        } else {
-          moveTile(tile, positions.farthest, engine.state.tiles, grid);
-          if (positions.farthest.row !== row || positions.farthest.col !== col) {
-            moved = true;
-          }
-        }
-      } else {
-        moveTile(tile, positions.farthest, engine.state.tiles, grid);
-        if (positions.farthest.row !== row || positions.farthest.col !== col) {
-          moved = true;
-        }
-      }
-    }
+// Unknown or missing fields fall back to defaults, so adding a setting later
+// doesn't reset the ones already saved
+const loadSettings = (): Settings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('zipperMergeSettings') || '{}');
+    return {
+      ...DEFAULT_SETTINGS,
+      ...saved,
+      undo: { ...DEFAULT_UNDO_SETTINGS, ...saved.undo },
+      keyBindings: { ...DEFAULT_KEY_BINDINGS, ...saved.keyBindings },
+      shortcuts: { ...DEFAULT_SHORTCUTS, ...saved.shortcuts },
+      gamepadMapping: { ...DEFAULT_GAMEPAD_MAPPING, ...saved.gamepadMapping },
+    };
+  } catch (e) {
+    return DEFAULT_SETTINGS;
   }
+};
 
-  if (moved) {
-    engine.state.moves++;
-    spawnTile(engine.state, size);
-
-    if (engine.state.score > engine.highScore) {
-      engine.highScore = engine.state.score;
-      saveHighScore(engine.highScore);
-    }
-
-    const availableMoves = checkAvailableMoves(engine.state, size);
-    if (!availableMoves) {
-      engine.state.gameOver = true;
-      const stats = loadStats();
-      stats.gamesPlayed++;
-      stats.totalScore += engine.state.score;
-      stats.bestCombo = Math.max(stats.bestCombo, engine.state.comboCount);
-      const highestTile = Math.max(...engine.state.tiles.map((t) => t.value));
-      stats.highestTile = Math.max(stats.highestTile, highestTile);
-      if (engine.state.won) stats.gamesWon++;
-      saveStats(stats);
-    }
-  }
+const getChaosRates = ({ enabled, ...rates }: ChaosSettings): ChaosRates | null => (enabled ? rates : null);
 
-  return moved;
+const saveSettings = (settings: Settings) => {
+  localStorage.setItem('zipperMergeSettings', JSON.stringify(settings));
 };
 
-const checkAvailableMoves = (state: GameState, size: number): boolean => {
-  const grid = buildGrid(state.tiles, size);
-
-  for (let row = 0; row < size; row++) {
-    for (let col = 0; col < size; col++) {
-      if (grid[row][col] === null) return true;
+const resumeGame = (save: SavedGame): GameEngine => ({
+  state: save.state,
+  history: save.history,
+  future: save.future,
+  undoPolicy: save.undoPolicy,
+  keepSpawns: save.keepSpawns,
+  undosRemaining: save.undosRemaining,
+  undosUsed: save.undosUsed,
+  highScore: loadHighScore(save.boardSize, save.ruleSet),
+  highScoreUsedUndo: loadHighScoreUsedUndo(save.boardSize, save.ruleSet),
+  rng: save.rng,
+  recording: save.recording,
+  dailyDate: save.dailyDate,
+  chaos: save.chaos,
+});
 
-      const tile = grid[row][col];
-      if (!tile) continue;
+// How a new game is played, besides its board size and seed
+interface GameSetup {
+  mode: GameModeId;
+  ruleSet: RuleSetId;
+  chaos: ChaosRates | null;
+  undo: UndoSettings;
+  dailyDate: string | null;
+}
 
-      if (col < size - 1 && grid[row][col + 1]?.value === tile.value) return true;
-      if (row < size - 1 && grid[row + 1][col]?.value === tile.value) return true;
-    }
-  }
+const DEFAULT_SETUP: GameSetup = {
+  mode: 'classic',
+  ruleSet: 'classic',
+  chaos: null,
+  undo: DEFAULT_UNDO_SETTINGS,
+  dailyDate: null,
+};
 
-  return false;
+const initGame = (size = DEFAULT_BOARD_SIZE, seed?: number, setup: GameSetup = DEFAULT_SETUP): GameEngine => {
+  const { mode, ruleSet, chaos, undo, dailyDate } = setup;
+  const rng = createRng(seed);
+  const state = createGame(size, toRandomSource(rng), ruleSet);
+  return {
+    state,
+    history: [],
+    future: [],
+    undoPolicy: undo.policy,
+    keepSpawns: undo.keepSpawns,
+    undosRemaining: getStartingUndos(undo),
+    undosUsed: 0,
+    highScore: loadHighScore(size, ruleSet),
+    highScoreUsedUndo: loadHighScoreUsedUndo(size, ruleSet),
+    rng,
+    recording: startRecording(state, size, rng.seed, MODES[mode].rules, ruleSet),
+    dailyDate,
+    chaos,
+  };
 };
 
 // ==================== AUDIO SYSTEM ====================
+// Master gain at full volume; the default volume of 0.5 gives the original 0.3
+const MAX_MASTER_GAIN = 0.6;
+
 class AudioSystem {
   private context: AudioContext | null = null;
   private masterGain: GainNode | null = null;
   private enabled: boolean = true;
+  private volume: number = DEFAULT_SETTINGS.volume;
 
   init() {
     if (this.context) return;
     this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
     this.masterGain = this.context.createGain();
-    this.masterGain.gain.value = 0.3;
+    this.masterGain.gain.value = this.volume * MAX_MASTER_GAIN;
     this.masterGain.connect(this.context.destination);
   }
 
+  setVolume(volume: number) {
+    this.volume = volume;
+    if (this.masterGain) this.masterGain.gain.value = volume * MAX_MASTER_GAIN;
+  }
+
   setEnabled(enabled: boolean) {
     this.enabled = enabled;
     if (enabled && !this.context) {
@@ -439,6 +493,51 @@ class AudioSystem {
     }
   }
 
+  playExplosion() {
+    if (!this.enabled || !this.context || !this.masterGain) return;
+
+    const now = this.context.currentTime;
+
+    const noise = this.context.createBufferSource();
+    const noiseBuffer = this.context.createBuffer(1, this.context.sampleRate * 0.4, this.context.sampleRate);
+    const output = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < output.length; i++) {
+      output[i] = Math.random() * 2 - 1;
+    }
+    noise.buffer = noiseBuffer;
+
+    const noiseFilter = this.context.createBiquadFilter();
+    noiseFilter.type = 'lowpass';
+    noiseFilter.frequency.setValueAtTime(1200, now);
+    noiseFilter.frequency.exponentialRampToValueAtTime(100, now + 0.4);
+
+    const noiseGain = this.context.createGain();
+    noiseGain.gain.setValueAtTime(0.3, now);
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, now + 0.4);
+
+    noise.connect(noiseFilter);
+    noiseFilter.connect(noiseGain);
+    noiseGain.connect(this.masterGain);
+
+    noise.start(now);
+    noise.stop(now + 0.4);
+
+    const osc = this.context.createOscillator();
+    const gain = this.context.createGain();
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+
+    osc.frequency.setValueAtTime(90, now);
+    osc.frequency.exponentialRampToValueAtTime(40, now + 0.3);
+
+    gain.gain.setValueAtTime(0.25, now);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + 0.3);
+
+    osc.start(now);
+    osc.stop(now + 0.3);
+  }
+
   playWin() {
     if (!this.enabled || !this.context || !this.masterGain) return;
 
@@ -462,6 +561,63 @@ class AudioSystem {
     });
   }
 
+  // Each milestone gets its own fanfare: a higher key, a longer run and a
+  // fuller closing chord the further past the win the player gets
+  playMilestone(level: number) {
+    if (!this.enabled || !this.context || !this.masterGain) return;
+
+    const now = this.context.currentTime;
+    const root = 262 * 2 ** ((level * 4) / 12);
+    const run = [0, 4, 7, 12, 16, 19, 24, 28, 31].slice(0, 3 + level * 2);
+    const chord = [0, 4, 7, 12, 16].slice(0, 2 + level);
+    const waves: OscillatorType[] = ['triangle', 'square', 'sawtooth'];
+
+    const note = (semitones: number, start: number, length: number, volume: number, type: OscillatorType) => {
+      const osc = this.context!.createOscillator();
+      const gain = this.context!.createGain();
+
+      osc.type = type;
+      osc.connect(gain);
+      gain.connect(this.masterGain!);
+
+      osc.frequency.setValueAtTime(root * 2 ** (semitones / 12), start);
+
+      gain.gain.setValueAtTime(volume, start);
+      gain.gain.exponentialRampToValueAtTime(0.01, start + length);
+
+      osc.start(start);
+      osc.stop(start + length);
+    };
+
+    run.forEach((semitones, i) => note(semitones, now + i * 0.12, 0.25, 0.12, 'triangle'));
+    const end = now + run.length * 0.12;
+    chord.forEach((semitones) => note(semitones + 12, end, 0.6 + level * 0.3, 0.06, waves[level - 1] ?? 'sawtooth'));
+  }
+
+  playAchievement() {
+    if (!this.enabled || !this.context || !this.masterGain) return;
+
+    const now = this.context.currentTime;
+    const notes = [784, 1175];
+
+    notes.forEach((freq, i) => {
+      const osc = this.context!.createOscillator();
+      const gain = this.context!.createGain();
+
+      osc.type = 'sine';
+      osc.connect(gain);
+      gain.connect(this.masterGain!);
+
+      osc.frequency.setValueAtTime(freq, now + i * 0.1);
+
+      gain.gain.setValueAtTime(0.12, now + i * 0.1);
+      gain.gain.exponentialRampToValueAtTime(0.01, now + i * 0.1 + 0.4);
+
+      osc.start(now + i * 0.1);
+      osc.stop(now + i * 0.1 + 0.4);
+    });
+  }
+
   playGameOver() {
     if (!this.enabled || !this.context || !this.masterGain) return;
 
@@ -486,389 +642,65 @@ class AudioSystem {
 
 const audioSystem = new AudioSystem();
 
-// ==================== ENHANCED PARTICLE SYSTEM ====================
-
-// Progressive fireworks based on tile value
-const createEnhancedFireworks = (x: number, y: number, value: number, color: string): Particle[] => {
-  const particles: Particle[] = [];
-  
-  // 32: Rainbow burst + trails
-  if (value >= 32) {
-    const rainbowColors = ['#ff0080', '#00ff80', '#0080ff', '#ff8000', '#8000ff', '#ffff00'];
-    const burstCount = 12;
-    
-    for (let i = 0; i < burstCount; i++) {
-      const angle = (Math.PI * 2 * i) / burstCount;
-      const speed = 2.5 + Math.random() * 1.5;
-      
-      particles.push({
-        id: `firework-${Date.now()}-${i}-${Math.random()}`,
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed - 0.5,
-        life: 1.6,
-        color: rainbowColors[i % rainbowColors.length],
-        size: 3.5 + Math.random() * 1.5,
-        type: 'firework',
-      });
-    }
-    
-    // Add trailing particles
-    const trailCount = 8;
-    for (let i = 0; i < trailCount; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const speed = 1.5 + Math.random() * 1;
-      
-      particles.push({
-        id: `trail-${Date.now()}-${i}-${Math.random()}`,
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed,
-        life: 1.8,
-        color: rainbowColors[Math.floor(Math.random() * rainbowColors.length)],
-        size: 2.5 + Math.random() * 1,
-        type: 'trail',
-      });
-    }
-  }
-  
-  // 64: Add white sparks shooting upward
-  if (value >= 64) {
-    const sparkCount = 15;
-    for (let i = 0; i < sparkCount; i++) {
-      const angle = -Math.PI / 2 + (Math.random() - 0.5) * 0.6;
-      const speed = 4 + Math.random() * 3;
-      
-      particles.push({
-        id: `spark-${Date.now()}-${i}-${Math.random()}`,
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed,
-        life: 1.3,
-        color: '#ffffff',
-        size: 2.5 + Math.random() * 1,
-        type: 'spark',
-      });
-    }
-  }
-  
-  // 128: Add rotating stars
-  if (value >= 128) {
-    const starCount = 8;
-    for (let i = 0; i < starCount; i++) {
-      const angle = (Math.PI * 2 * i) / starCount;
-      const speed = 2 + Math.random() * 1.5;
-      
-      particles.push({
-        id: `star-${Date.now()}-${i}-${Math.random()}`,
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed - 0.3,
-        life: 2.0,
-        color: '#ffff00',
-        size: 4 + Math.random() * 2,
-        type: 'star',
-        rotation: Math.random() * Math.PI * 2,
-        rotationSpeed: (Math.random() - 0.5) * 0.3,
-      });
-    }
-  }
-  
-  // 256: Add pulsing hearts
-  if (value >= 256) {
-    const heartCount = 6;
-    for (let i = 0; i < heartCount; i++) {
-      const angle = (Math.PI * 2 * i) / heartCount;
-      const speed = 1.5 + Math.random() * 1;
-      
-      particles.push({
-        id: `heart-${Date.now()}-${i}-${Math.random()}`,
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed - 0.5,
-        life: 2.2,
-        color: '#ff1493',
-        size: 5 + Math.random() * 2,
-        type: 'heart',
-        pulsePhase: Math.random() * Math.PI * 2,
-      });
-    }
-  }
-  
-  // 512: Add expanding rings
-  if (value >= 512) {
-    const ringCount = 5;
-    for (let i = 0; i < ringCount; i++) {
-      const angle = (Math.PI * 2 * i) / ringCount;
-      const speed = 3 + Math.random() * 2;
-      
-      particles.push({
-        id: `ring-${Date.now()}-${i}-${Math.random()}`,
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed,
-        life: 2.5,
-        color: '#00ffff',
-        size: 6 + Math.random() * 2,
-        type: 'ring',
-        rotation: angle,
-      });
-    }
-  }
-  
-  // 1024+: Add triangles spinning outward
-  if (value >= 1024) {
-    const triangleCount = 10;
-    for (let i = 0; i < triangleCount; i++) {
-      const angle = (Math.PI * 2 * i) / triangleCount;
-      const speed = 2.5 + Math.random() * 2;
-      
-      particles.push({
-        id: `triangle-${Date.now()}-${i}-${Math.random()}`,
-        x,
-        y,
-        vx: Math.cos(angle) * speed,
-        vy: Math.sin(angle) * speed - 0.2,
-        life: 2.8,
-        color: '#ff00ff',
-        size: 5 + Math.random() * 2,
-        type: 'triangle',
-        rotation: Math.random() * Math.PI * 2,
-        rotationSpeed: (Math.random() - 0.5) * 0.4,
-      });
-    }
-  }
-  
-  return particles;
-};
-
-const updateParticles = (particles: Particle[]): Particle[] => {
-  return particles
-    .map((p) => {
-      let gravity = 0.5;
-      let fadeRate = 0.05;
-      let airResistance = 1.0;
-
-      if (p.type === 'firework') {
-        gravity = 0.35;
-        fadeRate = 0.025;
-        airResistance = 0.98;
-      } else if (p.type === 'spark') {
-        gravity = 0.25;
-        fadeRate = 0.03;
-        airResistance = 0.97;
-      } else if (p.type === 'trail') {
-        gravity = 0.15;
-        fadeRate = 0.02;
-        airResistance = 0.96;
-      } else if (p.type === 'star') {
-        gravity = 0.3;
-        fadeRate = 0.022;
-        airResistance = 0.97;
-      } else if (p.type === 'heart') {
-        gravity = 0.2;
-        fadeRate = 0.02;
-        airResistance = 0.96;
-      } else if (p.type === 'ring') {
-        gravity = 0.25;
-        fadeRate = 0.018;
-        airResistance = 0.95;
-      } else if (p.type === 'triangle') {
-        gravity = 0.28;
-        fadeRate = 0.016;
-        airResistance = 0.96;
-      }
+// ==================== COMPONENTS ====================
 
-      const newParticle = {
-        ...p,
-        x: p.x + p.vx,
-        y: p.y + p.vy,
-        vx: p.vx * airResistance,
-        vy: p.vy + gravity,
-        life: p.life - fadeRate,
-      };
+// Dialogs keep focus inside while open, close on Escape and hand focus back
+// to whatever opened them
+const useDialog = (onClose: () => void, open = true) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
 
-      if (p.rotation !== undefined && p.rotationSpeed !== undefined) {
-        newParticle.rotation = (p.rotation + p.rotationSpeed) % (Math.PI * 2);
-      }
+  useEffect(() => {
+    if (!open || !ref.current) return;
+    return trapFocus(ref.current, () => onCloseRef.current());
+  }, [open]);
 
-      if (p.pulsePhase !== undefined) {
-        newParticle.pulsePhase = p.pulsePhase + 0.15;
-      }
+  return ref;
+};
 
-      return newParticle;
-    })
-    .filter((p) => p.life > 0 && p.y < 120);
+// Tile Component
+// Compact notation only kicks in where five-digit numbers get cramped
+const COMPACT_MIN_BOARD_SIZE = 6;
+const COMPACT_MIN_VALUE = 10000;
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const BINARY_SUFFIXES = ['', 'k', 'M', 'G', 'T'];
+
+// Both short forms rely on tiles being powers of two, so Fibonacci and Threes
+// tiles are always written out in full
+const formatTileValue = (value: number, size: number, notation: TileNotation, ruleSet: RuleSetId): string => {
+  if (notation === 'full' || ruleSet !== 'classic' || size < COMPACT_MIN_BOARD_SIZE || value < COMPACT_MIN_VALUE) {
+    return value.toString();
+  }
+  const exponent = Math.round(Math.log2(value));
+  if (notation === 'power') {
+    return `2${exponent.toString().replace(/\d/g, (d) => SUPERSCRIPT_DIGITS[Number(d)])}`;
+  }
+  // Binary prefixes keep every power of two a whole number: 32768 -> 32k
+  const unit = Math.min(Math.floor(exponent / 10), BINARY_SUFFIXES.length - 1);
+  return `${value / 2 ** (unit * 10)}${BINARY_SUFFIXES[unit]}`;
 };
 
-// ==================== THEME SYSTEM ====================
-const themes: Record<Theme, any> = {
-  dark: {
-    background: 'linear-gradient(135deg, #0f0f1e 0%, #1a1a2e 100%)',
-    boardBg: '#16213e',
-    cellBg: '#0f1626',
-    text: '#ffffff',
-    textSecondary: '#a0a0c0',
-    tiles: {
-      2: '#2d3561',
-      4: '#3d4785',
-      8: '#4a5899',
-      16: '#5e6bbd',
-      32: '#7280e3',
-      64: '#8a96ff',
-      128: '#a0b0ff',
-      256: '#b8c5ff',
-      512: '#d0daff',
-      1024: '#e8ecff',
-      2048: '#ffffff',
-      4096: '#fff0f0',
-      8192: '#ffe0e0',
-      16384: '#ffd0d0',
-    },
-  },
-  light: {
-    background: '#faf8ef',
-    boardBg: '#bbada0',
-    cellBg: '#cdc1b4',
-    text: '#776e65',
-    textSecondary: '#8f8579',
-    buttonBg: '#8f7a66',
-    buttonHover: '#9f8a76',
-    logoTile: '#edc22e',
-    scoreBg: '#bbada0',
-    tiles: {
-      2: '#eee4da',
-      4: '#ede0c8',
-      8: '#f2b179',
-      16: '#f59563',
-      32: '#f67c5f',
-      64: '#f65e3b',
-      128: '#edcf72',
-      256: '#edcc61',
-      512: '#edc850',
-      1024: '#edc53f',
-      2048: '#edc22e',
-      4096: '#3c3a32',
-      8192: '#3c3a32',
-      16384: '#3c3a32',
-    },
-  },
-  neon: {
-    background: 'linear-gradient(135deg, #000000 0%, #1a0033 100%)',
-    boardBg: '#1a0033',
-    cellBg: '#2d0052',
-    text: '#00ffff',
-    textSecondary: '#ff00ff',
-    buttonBg: '#8000ff',
-    logoTile: '#ff00ff',
-    scoreBg: '#2d0052',
-    tiles: {
-      2: '#ff00ff',
-      4: '#ff0080',
-      8: '#ff0000',
-      16: '#ff8000',
-      32: '#ffff00',
-      64: '#00ff00',
-      128: '#00ff80',
-      256: '#00ffff',
-      512: '#0080ff',
-      1024: '#0000ff',
-      2048: '#8000ff',
-      4096: '#ff00ff',
-      8192: '#ff0080',
-      16384: '#ff0000',
-    },
-  },
-  sunset: {
-    background: '#fff5e6',
-    boardBg: '#d4a574',
-    cellBg: '#e8c4a0',
-    text: '#8b4513',
-    textSecondary: '#a0522d',
-    buttonBg: '#cd853f',
-    logoTile: '#ff6347',
-    scoreBg: '#d4a574',
-    tiles: {
-      2: '#ffe4b5',
-      4: '#ffd700',
-      8: '#ffa500',
-      16: '#ff8c00',
-      32: '#ff6347',
-      64: '#ff4500',
-      128: '#dc143c',
-      256: '#c71585',
-      512: '#8b008b',
-      1024: '#4b0082',
-      2048: '#ff1493',
-      4096: '#ff69b4',
-      8192: '#ff1493',
-      16384: '#c71585',
-    },
-  },
-  ocean: {
-    background: '#e6f7ff',
-    boardBg: '#4682b4',
-    cellBg: '#87ceeb',
-    text: '#003366',
-    textSecondary: '#1e4d7b',
-    buttonBg: '#5f9ea0',
-    logoTile: '#00ced1',
-    scoreBg: '#4682b4',
-    tiles: {
-      2: '#e0f7fa',
-      4: '#b2ebf2',
-      8: '#80deea',
-      16: '#4dd0e1',
-      32: '#26c6da',
-      64: '#00bcd4',
-      128: '#00acc1',
-      256: '#0097a7',
-      512: '#00838f',
-      1024: '#006064',
-      2048: '#00ffff',
-      4096: '#00e5ff',
-      8192: '#00b8d4',
-      16384: '#0097a7',
-    },
-  },
-  forest: {
-    background: '#f0f4e8',
-    boardBg: '#6b8e23',
-    cellBg: '#9acd32',
-    text: '#2d4a1f',
-    textSecondary: '#556b2f',
-    buttonBg: '#808000',
-    logoTile: '#32cd32',
-    scoreBg: '#6b8e23',
-    tiles: {
-      2: '#f0fff0',
-      4: '#e0f2e0',
-      8: '#c8e6c9',
-      16: '#a5d6a7',
-      32: '#81c784',
-      64: '#66bb6a',
-      128: '#4caf50',
-      256: '#43a047',
-      512: '#388e3c',
-      1024: '#2e7d32',
-      2048: '#00ff00',
-      4096: '#76ff03',
-      8192: '#64dd17',
-      16384: '#4caf50',
-    },
-  },
+// Chaos tiles look the same in every theme so they're never mistaken for numbers
+const SPECIAL_TILES: Record<TileKind, { label: string; background: string }> = {
+  stone: { label: '🪨', background: 'repeating-linear-gradient(45deg, #6d6d6d 0 6px, #5a5a5a 6px 12px)' },
+  wildcard: { label: '★', background: 'linear-gradient(135deg, #ff6b6b 0%, #ffd93d 35%, #6bcb77 65%, #4d96ff 100%)' },
+  bomb: { label: '💣', background: 'radial-gradient(circle, #4a4a4a 0%, #111 100%)' },
 };
 
-// ==================== COMPONENTS ====================
+// Tiles slide for exactly as long as the move animation waits before settling
+const TILE_TRANSITION = ['left', 'top', 'transform']
+  .map((property) => `${property} ${SLIDE_MS}ms cubic-bezier(0.4, 0.0, 0.2, 1)`)
+  .join(', ');
 
-// Tile Component
-const Tile: React.FC<{ tile: Tile; size: number; theme: Theme }> = ({ tile, size, theme }) => {
+const Tile: React.FC<{ tile: Tile; size: number; theme: Theme; notation?: TileNotation; ruleSet?: RuleSetId }> = ({
+  tile,
+  size,
+  theme,
+  notation = 'full',
+  ruleSet = 'classic',
+}) => {
   const cellSize = 100 / size;
   const gap = cellSize * 0.05;
   const tileSize = cellSize - gap * 2;
@@ -876,27 +708,36 @@ const Tile: React.FC<{ tile: Tile; size: number; theme: Theme }> = ({ tile, size
   const x = tile.col * cellSize + gap;
   const y = tile.row * cellSize + gap;
 
-  const tileColor = themes[theme].tiles[tile.value] || themes[theme].tiles[2];
-  const fontSize = tile.value >= 1024 ? 1.5 : tile.value >= 128 ? 2 : 2.5;
+  const special = tile.kind ? SPECIAL_TILES[tile.kind] : null;
+  // Other rule sets borrow the look of the classic tile at the same rank
+  const tier = special ? 0 : toClassicValue(ruleSet, tile.value);
+  const tileColor = special ? special.background : getTileColor(themes[theme], tier);
+  const label = special ? special.label : formatTileValue(tile.value, size, notation, ruleSet);
+  // Capped at the classic rem sizes, shrinking with the cell (cqw is a
+  // percentage of the board width) so long values fit on large boards
+  const fontSize =
+    label.length >= 7 ? 1 : label.length >= 6 ? 1.2 : label.length >= 4 ? 1.5 : label.length >= 3 ? 2 : 2.5;
+  const fitSize = cellSize * Math.min(0.45, 1.2 / (label.length + 1));
 
   return (
     <div
-      className={`tile ${tile.justMerged ? 'tile-merge' : ''} ${tile.isNew ? 'tile-spawn' : ''} ${tile.justMerged ? `tile-${tile.value}` : ''}`}
+      className={`tile ${tile.justMerged ? 'tile-merge' : ''} ${tile.isNew ? 'tile-spawn' : ''} ${tile.justMerged ? `tile-${tier}` : ''}`}
+      aria-hidden="true"
       style={{
         position: 'absolute',
         left: `${x}%`,
         top: `${y}%`,
         width: `${tileSize}%`,
         height: `${tileSize}%`,
-        backgroundColor: tileColor,
+        background: tileColor,
         borderRadius: '8px',
         display: 'flex',
         alignItems: 'center',
         justifyContent: 'center',
         fontWeight: 'bold',
-        fontSize: `${fontSize}rem`,
-        color: tile.value > 4 ? '#fff' : themes[theme].text,
-        transition: 'left 150ms cubic-bezier(0.4, 0.0, 0.2, 1), top 150ms cubic-bezier(0.4, 0.0, 0.2, 1), transform 150ms cubic-bezier(0.4, 0.0, 0.2, 1)',
+        fontSize: `min(${fontSize}rem, ${fitSize}cqw)`,
+        color: special || tier > 4 ? '#fff' : themes[theme].text,
+        transition: TILE_TRANSITION,
         boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
         willChange: 'left, top, transform',
         transform: 'translate3d(0, 0, 0)',
@@ -904,314 +745,364 @@ const Tile: React.FC<{ tile: Tile; size: number; theme: Theme }> = ({ tile, size
         WebkitBackfaceVisibility: 'hidden',
       }}
     >
-      {tile.value}
+      {label}
     </div>
   );
 };
 
-// Enhanced Particle Layer with shapes
-const ParticleLayer: React.FC<{ particles: Particle[] }> = ({ particles }) => {
+// Particle Canvas: one canvas over the board, animated with requestAnimationFrame.
+// Particles live in a ref so the simulation never re-renders React.
+const ParticleCanvas: React.FC<{ particlesRef: React.MutableRefObject<Particle[]> }> = ({ particlesRef }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let width = 0;
+    let height = 0;
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      width = canvas.clientWidth;
+      height = canvas.clientHeight;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    let frame = 0;
+    let last = performance.now();
+    let drewLastFrame = false;
+    const tick = (now: number) => {
+      const particles = updateParticles(particlesRef.current, now - last);
+      particlesRef.current = particles;
+      last = now;
+
+      // Skip redundant clears once the board has gone quiet
+      if (particles.length > 0 || drewLastFrame) {
+        drawParticles(ctx, particles, width, height);
+        drewLastFrame = particles.length > 0;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+    };
+  }, [particlesRef]);
+
   return (
-    <div
+    <canvas
+      ref={canvasRef}
+      aria-hidden="true"
       style={{
         position: 'absolute',
         inset: 0,
+        width: '100%',
+        height: '100%',
         pointerEvents: 'none',
-        overflow: 'hidden',
         zIndex: 10,
       }}
-    >
-      {particles.map((p) => {
-        const isFirework = p.type === 'firework';
-        const isSpark = p.type === 'spark';
-        const isTrail = p.type === 'trail';
-        const isStar = p.type === 'star';
-        const isHeart = p.type === 'heart';
-        const isRing = p.type === 'ring';
-        const isTriangle = p.type === 'triangle';
-
-        let boxShadow = `0 0 ${p.size}px ${p.color}`;
-
-        if (isFirework) {
-          boxShadow = `
-            0 0 ${p.size * 2}px ${p.color},
-            0 0 ${p.size * 4}px ${p.color},
-            0 0 ${p.size * 6}px ${p.color}
-          `;
-        } else if (isSpark) {
-          boxShadow = `
-            0 0 8px #ffffff,
-            0 0 12px #ffffff,
-            0 0 16px #ffffff
-          `;
-        } else if (isTrail) {
-          boxShadow = `
-            0 0 ${p.size * 3}px ${p.color},
-            0 0 ${p.size * 6}px ${p.color}
-          `;
-        } else if (isStar) {
-          boxShadow = `
-            0 0 ${p.size * 2}px ${p.color},
-            0 0 ${p.size * 4}px ${p.color}
-          `;
-        } else if (isHeart) {
-          boxShadow = `
-            0 0 ${p.size * 2.5}px ${p.color},
-            0 0 ${p.size * 5}px ${p.color}
-          `;
-        } else if (isRing) {
-          boxShadow = `
-            0 0 ${p.size * 3}px ${p.color},
-            0 0 ${p.size * 6}px ${p.color}
-          `;
-        } else if (isTriangle) {
-          boxShadow = `
-            0 0 ${p.size * 2.5}px ${p.color},
-            0 0 ${p.size * 5}px ${p.color}
-          `;
-        }
+    />
+  );
+};
 
-        let shape = 'circle';
-        if (isStar) shape = 'star';
-        else if (isHeart) shape = 'heart';
-        else if (isRing) shape = 'ring';
-        else if (isTriangle) shape = 'triangle';
+// Board Component
+const HINT_ARROWS: Record<Direction, string> = {
+  up: '↑',
+  down: '↓',
+  left: '←',
+  right: '→',
+};
 
-        // Pulse effect for hearts
-        let pulseScale = 1;
-        if (isHeart && p.pulsePhase !== undefined) {
-          pulseScale = 1 + Math.sin(p.pulsePhase) * 0.3;
-        }
+const Board: React.FC<{
+  // Given for the live board, which takes swipes; the page can't scroll from it
+  containerRef?: React.RefObject<HTMLDivElement>;
+  tiles: Tile[];
+  size: number;
+  theme: Theme;
+  particlesRef?: React.MutableRefObject<Particle[]>;
+  hint?: Direction | null;
+  notation?: TileNotation;
+  ruleSet?: RuleSetId;
+}> = ({ containerRef, tiles, size, theme, particlesRef, hint, notation, ruleSet }) => {
+  const cellSize = 100 / size;
+  const grid = buildGrid(tiles, size);
 
-        const transform = `
-          translate(-50%, -50%) 
-          rotate(${p.rotation || 0}rad) 
-          scale(${pulseScale})
-        `;
+  // The empty cells carry the grid's labels for screen readers; the tiles
+  // drawn over them are decoration
+  return (
+    <div
+      ref={containerRef}
+      role="grid"
+      aria-label={`Game board, ${size} by ${size}`}
+      aria-readonly="true"
+      tabIndex={containerRef ? 0 : undefined}
+      style={{
+        position: 'relative',
+        touchAction: containerRef ? 'none' : undefined,
+        userSelect: containerRef ? 'none' : undefined,
+        width: '100%',
+        paddingBottom: '100%',
+        backgroundColor: themes[theme].boardBg,
+        borderRadius: '12px',
+        boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+        containerType: 'inline-size',
+      }}
+    >
+      <div style={{ position: 'absolute', inset: 0 }}>
+        {/* Grid cells */}
+        {grid.map((cells, row) => (
+          <div key={row} role="row" style={{ display: 'contents' }}>
+            {cells.map((tile, col) => {
+              const gap = cellSize * 0.05;
+              const x = col * cellSize + gap;
+              const y = row * cellSize + gap;
+              const tileSize = cellSize - gap * 2;
+
+              return (
+                <div
+                  key={col}
+                  role="gridcell"
+                  aria-label={describeCell(tile, row, col)}
+                  style={{
+                    position: 'absolute',
+                    left: `${x}%`,
+                    top: `${y}%`,
+                    width: `${tileSize}%`,
+                    height: `${tileSize}%`,
+                    backgroundColor: themes[theme].cellBg,
+                    borderRadius: '8px',
+                  }}
+                />
+              );
+            })}
+          </div>
+        ))}
 
-        // Render different shapes
-        if (shape === 'star') {
-          return (
-            <div
-              key={p.id}
-              style={{
-                position: 'absolute',
-                left: `${p.x}%`,
-                top: `${p.y}%`,
-                width: `${p.size}px`,
-                height: `${p.size}px`,
-                opacity: Math.min(p.life, 1),
-                pointerEvents: 'none',
-                transform,
-                filter: 'brightness(1.2)',
-              }}
-            >
-              <div
-                style={{
-                  width: '100%',
-                  height: '100%',
-                  background: p.color,
-                  clipPath: 'polygon(50% 0%, 61% 35%, 98% 35%, 68% 57%, 79% 91%, 50% 70%, 21% 91%, 32% 57%, 2% 35%, 39% 35%)',
-                  boxShadow,
-                }}
-              />
-            </div>
-          );
-        } else if (shape === 'heart') {
-          return (
-            <div
-              key={p.id}
-              style={{
-                position: 'absolute',
-                left: `${p.x}%`,
-                top: `${p.y}%`,
-                width: `${p.size}px`,
-                height: `${p.size}px`,
-                opacity: Math.min(p.life, 1),
-                pointerEvents: 'none',
-                transform,
-                filter: 'brightness(1.3)',
-              }}
-            >
-              <div
-                style={{
-                  width: '100%',
-                  height: '100%',
-                  background: p.color,
-                  clipPath: 'path("M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z")',
-                  boxShadow,
-                }}
-              />
-            </div>
-          );
-        } else if (shape === 'ring') {
-          return (
-            <div
-              key={p.id}
-              style={{
-                position: 'absolute',
-                left: `${p.x}%`,
-                top: `${p.y}%`,
-                width: `${p.size}px`,
-                height: `${p.size}px`,
-                border: `${Math.max(2, p.size / 4)}px solid ${p.color}`,
-                borderRadius: '50%',
-                opacity: Math.min(p.life, 1),
-                pointerEvents: 'none',
-                transform,
-                boxShadow,
-                filter: 'brightness(1.4)',
-              }}
-            />
-          );
-        } else if (shape === 'triangle') {
-          return (
-            <div
-              key={p.id}
-              style={{
-                position: 'absolute',
-                left: `${p.x}%`,
-                top: `${p.y}%`,
-                width: `${p.size}px`,
-                height: `${p.size}px`,
-                opacity: Math.min(p.life, 1),
-                pointerEvents: 'none',
-                transform,
-                filter: 'brightness(1.3)',
-              }}
-            >
-              <div
-                style={{
-                  width: '100%',
-                  height: '100%',
-                  background: p.color,
-                  clipPath: 'polygon(50% 0%, 0% 100%, 100% 100%)',
-                  boxShadow,
-                }}
-              />
-            </div>
-          );
-        }
+        {/* Tiles */}
+        {tiles.map((tile) => (
+          <Tile key={tile.id} tile={tile} size={size} theme={theme} notation={notation} ruleSet={ruleSet} />
+        ))}
 
-        // Default circle
-        return (
+        {/* AI hint arrow */}
+        {hint && (
           <div
-            key={p.id}
+            key={hint}
+            className="hint-arrow"
+            aria-hidden="true"
             style={{
               position: 'absolute',
-              left: `${p.x}%`,
-              top: `${p.y}%`,
-              width: `${p.size}px`,
-              height: `${p.size}px`,
-              backgroundColor: p.color,
-              borderRadius: '50%',
-              opacity: Math.min(p.life, 1),
+              inset: 0,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '30cqw',
+              color: 'rgba(255,255,255,0.85)',
+              textShadow: '0 4px 16px rgba(0,0,0,0.4)',
               pointerEvents: 'none',
-              transform: 'translate(-50%, -50%)',
-              boxShadow,
-              filter: isFirework || isSpark ? 'brightness(1.2)' : 'none',
+              zIndex: 5,
             }}
-          />
-        );
-      })}
+          >
+            {HINT_ARROWS[hint]}
+          </div>
+        )}
+
+        {/* Particles */}
+        {particlesRef && <ParticleCanvas particlesRef={particlesRef} />}
+      </div>
     </div>
   );
 };
 
-// Board Component
-const Board: React.FC<{
-  tiles: Tile[];
-  size: number;
-  theme: Theme;
-  particles: Particle[];
-}> = ({ tiles, size, theme, particles }) => {
-  const cellSize = 100 / size;
+// Theme Preview: a miniature board drawn with the theme's own palette
+const PREVIEW_VALUES = [2, 4, 8, 16, 32, 64, 128, 512, 2048];
 
+const ThemePreview: React.FC<{ palette: ThemePalette; selected: boolean; onSelect: () => void }> = ({
+  palette,
+  selected,
+  onSelect,
+}) => {
   return (
-    <div
+    <button
+      onClick={onSelect}
+      className="game-button"
+      aria-pressed={selected}
       style={{
-        position: 'relative',
-        width: '100%',
-        paddingBottom: '100%',
-        backgroundColor: themes[theme].boardBg,
-        borderRadius: '12px',
-        boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+        padding: '6px',
+        borderRadius: '10px',
+        border: selected ? '2px solid #fff' : '2px solid transparent',
+        background: palette.background,
+        cursor: 'pointer',
+        touchAction: 'manipulation',
+        WebkitTapHighlightColor: 'transparent',
       }}
     >
-      <div style={{ position: 'absolute', inset: 0 }}>
-        {/* Grid cells */}
-        {Array.from({ length: size * size }).map((_, i) => {
-          const row = Math.floor(i / size);
-          const col = i % size;
-          const gap = cellSize * 0.05;
-          const x = col * cellSize + gap;
-          const y = row * cellSize + gap;
-          const tileSize = cellSize - gap * 2;
-
-          return (
-            <div
-              key={i}
-              style={{
-                position: 'absolute',
-                left: `${x}%`,
-                top: `${y}%`,
-                width: `${tileSize}%`,
-                height: `${tileSize}%`,
-                backgroundColor: themes[theme].cellBg,
-                borderRadius: '8px',
-              }}
-            />
-          );
-        })}
-
-        {/* Tiles */}
-        {tiles.map((tile) => (
-          <Tile key={tile.id} tile={tile} size={size} theme={theme} />
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(3, 1fr)',
+          gap: '3px',
+          padding: '3px',
+          borderRadius: '6px',
+          background: palette.boardBg,
+        }}
+      >
+        {PREVIEW_VALUES.map((value) => (
+          <div
+            key={value}
+            style={{
+              aspectRatio: '1',
+              borderRadius: '3px',
+              background: getTileColor(palette, value),
+              color: value > 4 ? '#fff' : palette.text,
+              fontSize: '0.55rem',
+              fontWeight: 'bold',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+            }}
+          >
+            {value}
+          </div>
         ))}
-
-        {/* Particles */}
-        <ParticleLayer particles={particles} />
       </div>
-    </div>
+      <div style={{ marginTop: '4px', fontSize: '0.75rem', fontWeight: '600', color: palette.text }}>
+        {palette.icon} {palette.name}
+      </div>
+    </button>
   );
 };
 
+const ThemeGallery: React.FC<{ current: Theme; onSelect: (theme: Theme) => void; columns?: number }> = ({
+  current,
+  onSelect,
+  columns = 2,
+}) => (
+  <div style={{ display: 'grid', gridTemplateColumns: `repeat(${columns}, 1fr)`, gap: '8px' }}>
+    {getThemeOrder().map((t) => (
+      <ThemePreview key={t} palette={themes[t]} selected={t === current} onSelect={() => onSelect(t)} />
+    ))}
+  </div>
+);
+
+// The figure a mode's records are ranked by
+const formatRecordMetric = (record: ModeRecord, metric: RecordMetric, formatTime: (s: number) => string) =>
+  metric === 'time'
+    ? formatTime(record.time)
+    : metric === 'highestTile'
+      ? record.highestTile.toString()
+      : record.score.toString();
+
 // HUD Component
 const HUD: React.FC<{
   score: number;
-  highScore: number;
+  bestLabel: string;
+  best: string;
   moves: number;
   comboCount: number;
-  undosRemaining: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  // Undos left, shown next to the button; null when the policy gives none
+  undoBadge: string | null;
+  // Controller buttons for New, Undo and the menu, shown while a gamepad is connected
+  buttonGlyphs: Record<GamepadAction, string> | null;
+  // Null while keyboard shortcuts are off
+  shortcutKeys: ShortcutBindings | null;
   soundEnabled: boolean;
   theme: Theme;
   gameTime: number;
   showMenu: boolean;
+  showNewOptions: boolean;
+  seed: number;
+  boardSize: number;
+  gameMode: GameModeId;
+  ruleSet: RuleSetId;
   onRestart: () => void;
+  onReplaySeed: () => void;
+  onToggleNewOptions: () => void;
   onUndo: () => void;
+  onRedo: () => void;
   onToggleSound: () => void;
-  onToggleTheme: () => void;
+  onSelectTheme: (theme: Theme) => void;
   onShowStats: () => void;
+  onShowSettings: () => void;
+  onShowGamepad: () => void;
+  onShowReplay: () => void;
+  onShowDaily: () => void;
   onToggleMenu: () => void;
+  onChangeBoardSize: (size: number) => void;
+  onChangeMode: (mode: GameModeId) => void;
+  onChangeRuleSet: (ruleSet: RuleSetId) => void;
+  autoplay: boolean;
+  aiDifficulty: Difficulty;
+  onHint: () => void;
+  onToggleAutoplay: () => void;
+  onChangeAiDifficulty: (difficulty: Difficulty) => void;
   formatTime: (s: number) => string;
 }> = ({
   score,
-  highScore,
+  bestLabel,
+  best,
   moves,
   comboCount,
-  undosRemaining,
+  canUndo,
+  canRedo,
+  undoBadge,
+  buttonGlyphs,
+  shortcutKeys,
   soundEnabled,
   theme,
   gameTime,
   showMenu,
+  showNewOptions,
+  seed,
+  boardSize,
+  gameMode,
+  ruleSet,
   onRestart,
+  onReplaySeed,
+  onToggleNewOptions,
   onUndo,
+  onRedo,
   onToggleSound,
-  onToggleTheme,
+  onSelectTheme,
   onShowStats,
+  onShowSettings,
+  onShowGamepad,
+  onShowReplay,
+  onShowDaily,
   onToggleMenu,
+  onChangeBoardSize,
+  onChangeMode,
+  onChangeRuleSet,
+  autoplay,
+  aiDifficulty,
+  onHint,
+  onToggleAutoplay,
+  onChangeAiDifficulty,
   formatTime,
 }) => {
+  const chooseNew = (replay: boolean) => {
+    if (replay) onReplaySeed();
+    else onRestart();
+  };
+
+  const menuRef = useDialog(onToggleMenu, showMenu);
+
+  const shortcut = (action: InputAction) => (shortcutKeys ? toAriaShortcut(shortcutKeys[action]) : undefined);
+
+  const glyph = (action: GamepadAction) =>
+    buttonGlyphs && (
+      <span style={{ fontSize: '0.75em', opacity: 0.8, marginRight: '6px' }}>{buttonGlyphs[action]}</span>
+    );
+
   return (
     <div style={{ marginBottom: '20px' }}>
       {/* Top Row: Logo, Score, Best, Menu */}
@@ -1224,7 +1115,7 @@ const HUD: React.FC<{
           alignItems: 'stretch',
         }}
       >
-        {/* 2048 Logo Tile */}
+        {/* Logo Tile, showing the tile that wins under the current rules */}
         <div
           style={{
             background: themes[theme].logoTile || '#edc22e',
@@ -1239,7 +1130,7 @@ const HUD: React.FC<{
             boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
           }}
         >
-          2048
+          {RULE_SETS[ruleSet].winValue}
         </div>
 
         {/* Score */}
@@ -1285,9 +1176,9 @@ const HUD: React.FC<{
               marginBottom: '4px',
             }}
           >
-            BEST
+            {bestLabel}
           </div>
-          <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#fff' }}>{highScore}</div>
+          <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#fff' }}>{best}</div>
         </div>
 
         {/* Menu Button */}
@@ -1297,6 +1188,9 @@ const HUD: React.FC<{
             e.preventDefault();
             onToggleMenu();
           }}
+          aria-label="Menu"
+          aria-expanded={showMenu}
+          aria-keyshortcuts={shortcut('menu')}
           className="game-button"
           style={{
             padding: '0 16px',
@@ -1311,24 +1205,26 @@ const HUD: React.FC<{
             WebkitTapHighlightColor: 'transparent',
           }}
         >
-          ☰
+          {glyph('menu')}☰
         </button>
       </div>
 
-      {/* Second Row: New and Undo */}
+      {/* Second Row: New, Undo and Redo */}
       <div
         style={{
           display: 'grid',
-          gridTemplateColumns: '1fr 1fr',
+          gridTemplateColumns: '1fr 1fr 1fr',
           gap: '12px',
         }}
       >
         <button
-          onClick={onRestart}
+          onClick={onToggleNewOptions}
           onTouchEnd={(e) => {
             e.preventDefault();
-            onRestart();
+            onToggleNewOptions();
           }}
+          aria-expanded={showNewOptions}
+          aria-keyshortcuts={shortcut('newGame')}
           className="game-button"
           style={{
             padding: '14px',
@@ -1345,35 +1241,132 @@ const HUD: React.FC<{
             WebkitTapHighlightColor: 'transparent',
           }}
         >
-          New
+          {glyph('newGame')}New
         </button>
-        <button
-          onClick={onUndo}
-          onTouchEnd={(e) => {
-            e.preventDefault();
-            if (undosRemaining > 0) onUndo();
-          }}
-          disabled={undosRemaining === 0}
-          className="game-button"
+        {/* Keyed by action, not label, so the count changing doesn't remount the button and drop focus */}
+        {[
+          {
+            id: 'undo',
+            label: undoBadge === null ? 'Undo' : `Undo ${undoBadge}`,
+            padGlyph: glyph('undo'),
+            shortcut: shortcut('undo'),
+            enabled: canUndo,
+            onPress: onUndo,
+          },
+          { id: 'redo', label: 'Redo', padGlyph: null, shortcut: shortcut('redo'), enabled: canRedo, onPress: onRedo },
+        ].map(({ id, label, padGlyph, shortcut, enabled, onPress }) => (
+          <button
+            key={id}
+            onClick={onPress}
+            onTouchEnd={(e) => {
+              e.preventDefault();
+              if (enabled) onPress();
+            }}
+            disabled={!enabled}
+            aria-keyshortcuts={shortcut}
+            className="game-button"
+            style={{
+              padding: '14px',
+              borderRadius: '8px',
+              border: 'none',
+              background: enabled ? (themes[theme].buttonBg || '#8f7a66') : themes[theme].cellBg,
+              color: '#f9f6f2',
+              cursor: enabled ? 'pointer' : 'not-allowed',
+              fontSize: '1rem',
+              fontWeight: '700',
+              letterSpacing: '1px',
+              textTransform: 'uppercase',
+              opacity: enabled ? 1 : 0.4,
+              touchAction: 'manipulation',
+              WebkitTapHighlightColor: 'transparent',
+            }}
+          >
+            {padGlyph}
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Third Row: AI hint and autoplay */}
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr',
+          gap: '12px',
+          marginTop: '12px',
+        }}
+      >
+        {/* Autoplay's label flips with its state, so both are keyed by id to keep focus on toggle */}
+        {[
+          { id: 'hint', label: '💡 Hint', active: false, onPress: onHint },
+          { id: 'autoplay', label: autoplay ? '⏸ Stop' : '🤖 Autoplay', active: autoplay, onPress: onToggleAutoplay },
+        ].map((action) => (
+          <button
+            key={action.id}
+            onClick={action.onPress}
+            onTouchEnd={(e) => {
+              e.preventDefault();
+              action.onPress();
+            }}
+            className="game-button"
+            style={{
+              padding: '10px',
+              borderRadius: '8px',
+              border: 'none',
+              background: action.active ? (themes[theme].buttonBg || '#8f7a66') : themes[theme].cellBg,
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '0.9rem',
+              fontWeight: '600',
+              touchAction: 'manipulation',
+              WebkitTapHighlightColor: 'transparent',
+            }}
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+
+      {/* New game options: fresh seed or replay the current one */}
+      {showNewOptions && (
+        <div
           style={{
-            padding: '14px',
-            borderRadius: '8px',
-            border: 'none',
-            background: undosRemaining > 0 ? (themes[theme].buttonBg || '#8f7a66') : themes[theme].cellBg,
-            color: '#f9f6f2',
-            cursor: undosRemaining > 0 ? 'pointer' : 'not-allowed',
-            fontSize: '1rem',
-            fontWeight: '700',
-            letterSpacing: '1px',
-            textTransform: 'uppercase',
-            opacity: undosRemaining > 0 ? 1 : 0.4,
-            touchAction: 'manipulation',
-            WebkitTapHighlightColor: 'transparent',
+            display: 'grid',
+            gridTemplateColumns: '1fr 1fr',
+            gap: '12px',
+            marginTop: '12px',
           }}
         >
-          Undo
-        </button>
-      </div>
+          {[
+            { label: 'New Seed', replay: false },
+            { label: `Replay #${formatSeed(seed)}`, replay: true },
+          ].map((option) => (
+            <button
+              key={option.label}
+              onClick={() => chooseNew(option.replay)}
+              onTouchEnd={(e) => {
+                e.preventDefault();
+                chooseNew(option.replay);
+              }}
+              className="game-button"
+              style={{
+                padding: '10px',
+                borderRadius: '8px',
+                border: 'none',
+                background: themes[theme].cellBg,
+                color: '#fff',
+                cursor: 'pointer',
+                fontSize: '0.9rem',
+                fontWeight: '600',
+                touchAction: 'manipulation',
+                WebkitTapHighlightColor: 'transparent',
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
 
       {/* Combo badge - absolutely positioned */}
       {comboCount > 1 && (
@@ -1412,6 +1405,11 @@ const HUD: React.FC<{
           
           {/* Menu Panel */}
           <div
+            ref={menuRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label="Menu"
+            tabIndex={-1}
             style={{
               position: 'fixed',
               top: 0,
@@ -1425,12 +1423,14 @@ const HUD: React.FC<{
               display: 'flex',
               flexDirection: 'column',
               gap: '16px',
+              overflowY: 'auto',
             }}
           >
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
               <h3 style={{ margin: 0, fontSize: '1.5rem', color: '#fff' }}>Menu</h3>
               <button
                 onClick={onToggleMenu}
+                aria-label="Close menu"
                 style={{
                   border: 'none',
                   background: 'transparent',
@@ -1477,12 +1477,12 @@ const HUD: React.FC<{
 
             <button
               onClick={() => {
-                onToggleTheme();
+                onShowStats();
                 onToggleMenu();
               }}
               onTouchEnd={(e) => {
                 e.preventDefault();
-                onToggleTheme();
+                onShowStats();
                 onToggleMenu();
               }}
               className="game-button"
@@ -1503,30 +1503,18 @@ const HUD: React.FC<{
                 WebkitTapHighlightColor: 'transparent',
               }}
             >
-              <span style={{ fontSize: '1.5rem' }}>
-                {theme === 'light' ? '☀️' : 
-                 theme === 'dark' ? '🌙' : 
-                 theme === 'neon' ? '💎' :
-                 theme === 'sunset' ? '🌅' :
-                 theme === 'ocean' ? '🌊' : '🌲'}
-              </span>
-              <span>
-                {theme === 'light' ? 'Classic' : 
-                 theme === 'dark' ? 'Midnight' : 
-                 theme === 'neon' ? 'Neon Dreams' :
-                 theme === 'sunset' ? 'Sunset Glow' :
-                 theme === 'ocean' ? 'Ocean Depths' : 'Forest Mystique'}
-              </span>
+              <span style={{ fontSize: '1.5rem' }}>📊</span>
+              <span>Statistics</span>
             </button>
 
             <button
               onClick={() => {
-                onShowStats();
+                onShowSettings();
                 onToggleMenu();
               }}
               onTouchEnd={(e) => {
                 e.preventDefault();
-                onShowStats();
+                onShowSettings();
                 onToggleMenu();
               }}
               className="game-button"
@@ -1547,101 +1535,710 @@ const HUD: React.FC<{
                 WebkitTapHighlightColor: 'transparent',
               }}
             >
-              <span style={{ fontSize: '1.5rem' }}>📊</span>
-              <span>Statistics</span>
+              <span style={{ fontSize: '1.5rem' }}>⚙️</span>
+              <span>Settings</span>
             </button>
-          </div>
-        </>
-      )}
-    </div>
-  );
-};
 
-// Stats Modal
-const StatsModal: React.FC<{
-  stats: Stats;
-  onClose: () => void;
-  theme: Theme;
-}> = ({ stats, onClose }) => {
-  const winRate = stats.gamesPlayed > 0 ? ((stats.gamesWon / stats.gamesPlayed) * 100).toFixed(1) : '0';
+            <button
+              onClick={() => {
+                onShowGamepad();
+                onToggleMenu();
+              }}
+              onTouchEnd={(e) => {
+                e.preventDefault();
+                onShowGamepad();
+                onToggleMenu();
+              }}
+              className="game-button"
+              style={{
+                padding: '16px',
+                borderRadius: '8px',
+                border: 'none',
+                background: themes[theme].cellBg,
+                color: '#fff',
+                cursor: 'pointer',
+                fontSize: '1rem',
+                fontWeight: '600',
+                textAlign: 'left',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+                touchAction: 'manipulation',
+                WebkitTapHighlightColor: 'transparent',
+              }}
+            >
+              <span style={{ fontSize: '1.5rem' }}>🎮</span>
+              <span>Controller</span>
+            </button>
 
-  const achievements = [
-    { name: 'First Steps', desc: 'Play your first game', unlocked: stats.gamesPlayed >= 1 },
-    { name: 'Winner!', desc: 'Reach the 2048 tile', unlocked: stats.highestTile >= 2048 },
-    { name: 'Combo Master', desc: 'Get a 5x combo', unlocked: stats.bestCombo >= 5 },
-    { name: 'High Roller', desc: 'Score over 10,000 points', unlocked: stats.totalScore >= 10000 },
-    { name: 'Dedicated', desc: 'Play 10 games', unlocked: stats.gamesPlayed >= 10 },
-  ];
+            <button
+              onClick={() => {
+                onShowReplay();
+                onToggleMenu();
+              }}
+              onTouchEnd={(e) => {
+                e.preventDefault();
+                onShowReplay();
+                onToggleMenu();
+              }}
+              className="game-button"
+              style={{
+                padding: '16px',
+                borderRadius: '8px',
+                border: 'none',
+                background: themes[theme].cellBg,
+                color: '#fff',
+                cursor: 'pointer',
+                fontSize: '1rem',
+                fontWeight: '600',
+                textAlign: 'left',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+                touchAction: 'manipulation',
+                WebkitTapHighlightColor: 'transparent',
+              }}
+            >
+              <span style={{ fontSize: '1.5rem' }}>🎬</span>
+              <span>Watch Replay</span>
+            </button>
 
-  return (
-    <div
-      style={{
-        position: 'fixed',
-        inset: 0,
-        background: 'rgba(0,0,0,0.8)',
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
+            <button
+              onClick={() => {
+                onShowDaily();
+                onToggleMenu();
+              }}
+              onTouchEnd={(e) => {
+                e.preventDefault();
+                onShowDaily();
+                onToggleMenu();
+              }}
+              className="game-button"
+              style={{
+                padding: '16px',
+                borderRadius: '8px',
+                border: 'none',
+                background: themes[theme].cellBg,
+                color: '#fff',
+                cursor: 'pointer',
+                fontSize: '1rem',
+                fontWeight: '600',
+                textAlign: 'left',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+                touchAction: 'manipulation',
+                WebkitTapHighlightColor: 'transparent',
+              }}
+            >
+              <span style={{ fontSize: '1.5rem' }}>📅</span>
+              <span>Daily Challenge</span>
+            </button>
+
+            {/* Theme gallery: tap a preview to apply it */}
+            <div>
+              <div style={{ color: '#fff', fontWeight: '600', marginBottom: '8px' }}>Theme</div>
+              <ThemeGallery current={theme} onSelect={onSelectTheme} />
+            </div>
+
+            {/* Board size picker */}
+            <div>
+              <div style={{ color: '#fff', fontWeight: '600', marginBottom: '8px' }}>Board Size</div>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
+                {BOARD_SIZES.map((size) => (
+                  <button
+                    key={size}
+                    onClick={() => {
+                      if (size !== boardSize) onChangeBoardSize(size);
+                      onToggleMenu();
+                    }}
+                    className="game-button"
+                    style={{
+                      padding: '10px 0',
+                      borderRadius: '8px',
+                      border: size === boardSize ? '2px solid #fff' : '2px solid transparent',
+                      background: themes[theme].cellBg,
+                      color: '#fff',
+                      cursor: 'pointer',
+                      fontSize: '0.95rem',
+                      fontWeight: '600',
+                      touchAction: 'manipulation',
+                      WebkitTapHighlightColor: 'transparent',
+                    }}
+                  >
+                    {size}×{size}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Game mode picker */}
+            <div>
+              <div style={{ color: '#fff', fontWeight: '600', marginBottom: '8px' }}>Mode</div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {MODE_ORDER.map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => {
+                      if (mode !== gameMode) onChangeMode(mode);
+                      onToggleMenu();
+                    }}
+                    className="game-button"
+                    style={{
+                      padding: '10px 12px',
+                      borderRadius: '8px',
+                      border: mode === gameMode ? '2px solid #fff' : '2px solid transparent',
+                      background: themes[theme].cellBg,
+                      color: '#fff',
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                      touchAction: 'manipulation',
+                      WebkitTapHighlightColor: 'transparent',
+                    }}
+                  >
+                    <div style={{ fontSize: '0.95rem', fontWeight: '600' }}>
+                      {MODES[mode].icon} {MODES[mode].name}
+                    </div>
+                    <div style={{ fontSize: '0.75rem', opacity: 0.8 }}>{MODES[mode].description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Merge rules picker */}
+            <div>
+              <div style={{ color: '#fff', fontWeight: '600', marginBottom: '8px' }}>Rules</div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {RULE_SET_ORDER.map((id) => (
+                  <button
+                    key={id}
+                    onClick={() => {
+                      if (id !== ruleSet) onChangeRuleSet(id);
+                      onToggleMenu();
+                    }}
+                    className="game-button"
+                    style={{
+                      padding: '10px 12px',
+                      borderRadius: '8px',
+                      border: id === ruleSet ? '2px solid #fff' : '2px solid transparent',
+                      background: themes[theme].cellBg,
+                      color: '#fff',
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                      touchAction: 'manipulation',
+                      WebkitTapHighlightColor: 'transparent',
+                    }}
+                  >
+                    <div style={{ fontSize: '0.95rem', fontWeight: '600' }}>
+                      {RULE_SETS[id].icon} {RULE_SETS[id].name}
+                    </div>
+                    <div style={{ fontSize: '0.75rem', opacity: 0.8 }}>{RULE_SETS[id].description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* AI search depth for hints and autoplay */}
+            <div>
+              <div style={{ color: '#fff', fontWeight: '600', marginBottom: '8px' }}>AI Level</div>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
+                {(Object.keys(DIFFICULTY_DEPTH) as Difficulty[]).map((difficulty) => (
+                  <button
+                    key={difficulty}
+                    onClick={() => onChangeAiDifficulty(difficulty)}
+                    className="game-button"
+                    style={{
+                      padding: '10px 0',
+                      borderRadius: '8px',
+                      border: difficulty === aiDifficulty ? '2px solid #fff' : '2px solid transparent',
+                      background: themes[theme].cellBg,
+                      color: '#fff',
+                      cursor: 'pointer',
+                      fontSize: '0.85rem',
+                      fontWeight: '600',
+                      textTransform: 'capitalize',
+                      touchAction: 'manipulation',
+                      WebkitTapHighlightColor: 'transparent',
+                    }}
+                  >
+                    {difficulty}
+                    <div style={{ fontSize: '0.7rem', opacity: 0.7 }}>depth {DIFFICULTY_DEPTH[difficulty]}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// ==================== CHARTS ====================
+// Small SVG charts for the stats dashboard, drawn in a fixed viewBox that
+// scales to the card width and colored from the active theme.
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+// Room for axis labels on the left and bar labels underneath
+const CHART_LEFT = 36;
+const CHART_BOTTOM = 18;
+const CHART_TOP = 12;
+// Rough width of one label character, as a share of the font size
+const LABEL_CHAR_WIDTH = 0.6;
+
+// Games averaged together for the score trend line
+const TREND_WINDOW = 10;
+// Most recent games plotted in the score chart
+const SCORE_CHART_GAMES = 50;
+
+const formatAxisValue = (value: number): string => {
+  if (value >= 10000) return `${Math.round(value / 1000)}k`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}k`;
+  return Math.round(value).toString();
+};
+
+const movingAverage = (values: number[], window: number): number[] =>
+  values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+    return slice.reduce((sum, v) => sum + v, 0) / slice.length;
+  });
+
+// Scores in play order, with a dashed moving average to show the trend
+const LineChart: React.FC<{ values: number[]; color: string; trendColor: string; labelColor: string }> = ({
+  values,
+  color,
+  trendColor,
+  labelColor,
+}) => {
+  const max = Math.max(...values, 1);
+  const plotWidth = CHART_WIDTH - CHART_LEFT - 4;
+  const plotHeight = CHART_HEIGHT - CHART_TOP - CHART_BOTTOM;
+  const x = (i: number) => CHART_LEFT + (values.length > 1 ? (i / (values.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (v: number) => CHART_TOP + plotHeight - (v / max) * plotHeight;
+  const toPoints = (series: number[]) => series.map((v, i) => `${x(i)},${y(v)}`).join(' ');
+  const baseline = CHART_TOP + plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={{ width: '100%', display: 'block' }}>
+      <line x1={CHART_LEFT} y1={baseline} x2={CHART_WIDTH} y2={baseline} stroke={labelColor} strokeOpacity={0.4} />
+      <text x={CHART_LEFT - 4} y={CHART_TOP + 4} fill={labelColor} fontSize={9} textAnchor="end">
+        {formatAxisValue(max)}
+      </text>
+      <text x={CHART_LEFT - 4} y={baseline} fill={labelColor} fontSize={9} textAnchor="end">
+        0
+      </text>
+      <polygon
+        points={`${x(0)},${baseline} ${toPoints(values)} ${x(values.length - 1)},${baseline}`}
+        fill={color}
+        fillOpacity={0.2}
+      />
+      <polyline points={toPoints(values)} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+      <polyline
+        points={toPoints(movingAverage(values, TREND_WINDOW))}
+        fill="none"
+        stroke={trendColor}
+        strokeWidth={1.5}
+        strokeDasharray="4 3"
+      />
+      {values.length === 1 && <circle cx={x(0)} cy={y(values[0])} r={3} fill={color} />}
+      <text x={CHART_LEFT} y={CHART_HEIGHT - 4} fill={labelColor} fontSize={9}>
+        oldest
+      </text>
+      <text x={CHART_WIDTH - 4} y={CHART_HEIGHT - 4} fill={labelColor} fontSize={9} textAnchor="end">
+        latest
+      </text>
+    </svg>
+  );
+};
+
+interface Bar {
+  // Labels can repeat, e.g. both Time Attack modes share an icon, so bars
+  // are keyed separately
+  key: string;
+  label: string;
+  value: number;
+  color: string;
+}
+
+const BarChart: React.FC<{ bars: Bar[]; labelColor: string; format?: (value: number) => string }> = ({
+  bars,
+  labelColor,
+  format = formatAxisValue,
+}) => {
+  const max = Math.max(...bars.map((b) => b.value), 1);
+  const plotHeight = CHART_HEIGHT - CHART_TOP - CHART_BOTTOM;
+  const slot = CHART_WIDTH / Math.max(bars.length, 1);
+  const barWidth = Math.min(slot * 0.7, 40);
+  // Long labels such as mode names shrink to fit their slot
+  const labelSize = (label: string) => Math.min(9, slot / (label.length * LABEL_CHAR_WIDTH));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={{ width: '100%', display: 'block' }}>
+      {bars.map((bar, i) => {
+        const height = (bar.value / max) * plotHeight;
+        const center = slot * i + slot / 2;
+        return (
+          <g key={bar.key}>
+            <rect
+              x={center - barWidth / 2}
+              y={CHART_TOP + plotHeight - height}
+              width={barWidth}
+              height={height}
+              rx={3}
+              fill={bar.color}
+            />
+            <text x={center} y={CHART_TOP + plotHeight - height - 3} fill={labelColor} fontSize={9} textAnchor="middle">
+              {format(bar.value)}
+            </text>
+            <text x={center} y={CHART_HEIGHT - 4} fill={labelColor} fontSize={labelSize(bar.label)} textAnchor="middle">
+              {bar.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Stats Modal
+// Headline numbers come from the per-board stats; charts, averages and
+// streaks come from the game history for the current rule set.
+const StatsModal: React.FC<{
+  stats: Stats;
+  history: GameHistoryEntry[];
+  unlocked: UnlockedAchievements;
+  achievementContext: AchievementContext;
+  boardSize: number;
+  gameMode: GameModeId;
+  ruleSet: RuleSetId;
+  records: ModeRecord[];
+  formatTime: (s: number) => string;
+  onClose: () => void;
+  theme: Theme;
+}> = ({
+  stats,
+  history,
+  unlocked,
+  achievementContext,
+  boardSize,
+  gameMode,
+  ruleSet,
+  records,
+  formatTime,
+  onClose,
+  theme,
+}) => {
+  const [allSizes, setAllSizes] = useState(false);
+  const [bestBy, setBestBy] = useState<'boardSize' | 'mode'>('boardSize');
+
+  const palette = themes[theme];
+  const modeInfo = MODES[gameMode];
+  const rules = RULE_SETS[ruleSet];
+
+  const winRate = stats.gamesPlayed > 0 ? ((stats.gamesWon / stats.gamesPlayed) * 100).toFixed(1) : '0';
+
+  const ruleGames = history.filter((game) => game.ruleSet === ruleSet);
+  const games = allSizes ? ruleGames : ruleGames.filter((game) => game.boardSize === boardSize);
+  const streaks = getWinStreaks(games);
+  const scores = games.slice(-SCORE_CHART_GAMES).map((game) => game.score);
+
+  const tileBars: Bar[] = countHighestTiles(games).map(({ tile, count }) => ({
+    key: tile.toString(),
+    label: tile.toString(),
+    value: count,
+    color: getTileColor(palette, toClassicValue(ruleSet, tile)),
+  }));
+
+  const barColor = palette.buttonBg || '#8f7a66';
+  const bestByMode = bestScoresBy(games, 'mode');
+  const bestBars: Bar[] =
+    bestBy === 'boardSize'
+      ? [...bestScoresBy(ruleGames, 'boardSize')]
+          .sort((a, b) => a[0] - b[0])
+          .map(([size, score]) => ({ key: size.toString(), label: `${size}×${size}`, value: score, color: barColor }))
+      : MODE_ORDER.filter((mode) => bestByMode.has(mode)).map((mode) => ({
+          key: mode,
+          label: MODES[mode].name,
+          value: bestByMode.get(mode)!,
+          color: barColor,
+        }));
+
+  const card: React.CSSProperties = { background: 'rgba(0,0,0,0.1)', padding: '16px', borderRadius: '8px' };
+  const cardLabel: React.CSSProperties = { fontSize: '0.9rem', color: palette.textSecondary };
+  const cardValue: React.CSSProperties = { fontSize: '2rem', fontWeight: 'bold' };
+  const sectionTitle: React.CSSProperties = { marginBottom: '12px', fontSize: '1.2rem' };
+  const emptyNote = <p style={{ color: palette.textSecondary }}>Finish a game to see it here.</p>;
+
+  const toggleStyle = (selected: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '8px',
+    borderRadius: '8px',
+    border: selected ? `2px solid ${palette.text}` : '2px solid transparent',
+    background: palette.cellBg,
+    color: palette.text,
+    cursor: 'pointer',
+    fontSize: '0.85rem',
+    fontWeight: '600',
+    touchAction: 'manipulation',
+    WebkitTapHighlightColor: 'transparent',
+  });
+
+  const dialogRef = useDialog(onClose);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
         zIndex: 1000,
         padding: '20px',
       }}
       onClick={onClose}
     >
       <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Statistics"
+        tabIndex={-1}
         style={{
-          background: '#1a1a2e',
+          background: palette.background,
+          color: palette.text,
           borderRadius: '16px',
           padding: '32px',
           maxWidth: '500px',
           width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
           boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
         }}
         onClick={(e) => e.stopPropagation()}
       >
-        <h2 style={{ marginBottom: '24px', fontSize: '2rem' }}>📊 Statistics</h2>
+        <h2 style={{ marginBottom: '4px', fontSize: '2rem' }}>📊 Statistics</h2>
+        <p style={{ marginBottom: '24px', color: palette.textSecondary }}>
+          {boardSize}×{boardSize} board{ruleSet !== 'classic' && ` · ${rules.icon} ${rules.name} rules`}
+        </p>
 
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '24px' }}>
-          <div style={{ background: 'rgba(255,255,255,0.05)', padding: '16px', borderRadius: '8px' }}>
-            <div style={{ fontSize: '0.9rem', opacity: 0.8 }}>Games Played</div>
-            <div style={{ fontSize: '2rem', fontWeight: 'bold' }}>{stats.gamesPlayed}</div>
+          <div style={card}>
+            <div style={cardLabel}>Games Played</div>
+            <div style={cardValue}>{stats.gamesPlayed}</div>
+            <div style={{ fontSize: '0.8rem', color: palette.textSecondary }}>↶ {stats.gamesWithUndo} used undo</div>
+          </div>
+          <div style={card}>
+            <div style={cardLabel}>Win Rate</div>
+            <div style={cardValue}>{winRate}%</div>
+          </div>
+          <div style={card}>
+            <div style={cardLabel}>Total Score</div>
+            <div style={cardValue}>{stats.totalScore.toLocaleString()}</div>
+          </div>
+          <div style={card}>
+            <div style={cardLabel}>Best Combo</div>
+            <div style={cardValue}>×{stats.bestCombo}</div>
+          </div>
+          <div style={card}>
+            <div style={cardLabel}>Highest Tile</div>
+            <div style={cardValue}>{stats.highestTile || '—'}</div>
+          </div>
+          <div style={card}>
+            <div style={cardLabel}>Win Streak</div>
+            <div style={cardValue}>{streaks.current}</div>
+            <div style={{ fontSize: '0.8rem', color: palette.textSecondary }}>Longest {streaks.longest}</div>
           </div>
-          <div style={{ background: 'rgba(255,255,255,0.05)', padding: '16px', borderRadius: '8px' }}>
-            <div style={{ fontSize: '0.9rem', opacity: 0.8 }}>Win Rate</div>
-            <div style={{ fontSize: '2rem', fontWeight: 'bold' }}>{winRate}%</div>
+          <div style={{ ...card, gridColumn: '1 / -1' }}>
+            <div style={cardLabel}>First Win</div>
+            <div style={{ fontSize: '1.4rem', fontWeight: 'bold' }}>
+              {stats.firstWin
+                ? `${formatTime(stats.firstWin.time)} · ${stats.firstWin.moves} moves`
+                : `Not yet — reach ${rules.winValue}`}
+            </div>
+            {stats.firstWin && (
+              <div style={{ fontSize: '0.8rem', color: palette.textSecondary }}>
+                {new Date(stats.firstWin.date).toLocaleDateString()}
+              </div>
+            )}
           </div>
-          <div style={{ background: 'rgba(255,255,255,0.05)', padding: '16px', borderRadius: '8px' }}>
-            <div style={{ fontSize: '0.9rem', opacity: 0.8 }}>Total Score</div>
-            <div style={{ fontSize: '2rem', fontWeight: 'bold' }}>{stats.totalScore.toLocaleString()}</div>
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+          <button onClick={() => setAllSizes(false)} className="game-button" style={toggleStyle(!allSizes)}>
+            {boardSize}×{boardSize} only
+          </button>
+          <button onClick={() => setAllSizes(true)} className="game-button" style={toggleStyle(allSizes)}>
+            All board sizes
+          </button>
+        </div>
+
+        <div style={{ ...card, marginBottom: '16px' }}>
+          <div style={cardLabel}>Average Game</div>
+          <div style={{ fontSize: '1.4rem', fontWeight: 'bold' }}>
+            {games.length
+              ? [
+                  formatTime(Math.round(averageOf(games, 'duration'))),
+                  `${Math.round(averageOf(games, 'moves'))} moves`,
+                  `${Math.round(averageOf(games, 'score')).toLocaleString()} pts`,
+                ].join(' · ')
+              : '—'}
           </div>
-          <div style={{ background: 'rgba(255,255,255,0.05)', padding: '16px', borderRadius: '8px' }}>
-            <div style={{ fontSize: '0.9rem', opacity: 0.8 }}>Best Combo</div>
-            <div style={{ fontSize: '2rem', fontWeight: 'bold' }}>×{stats.bestCombo}</div>
+        </div>
+
+        <div style={{ marginBottom: '24px' }}>
+          <h3 style={sectionTitle}>📈 Score Over Time</h3>
+          {scores.length ? (
+            <div style={card}>
+              <LineChart
+                values={scores}
+                color={palette.tiles[2048] || palette.logoTile || '#edc22e'}
+                trendColor={palette.text}
+                labelColor={palette.textSecondary}
+              />
+              <div style={{ fontSize: '0.8rem', color: palette.textSecondary, marginTop: '4px' }}>
+                Last {scores.length} games · dashed line averages {TREND_WINDOW}
+              </div>
+            </div>
+          ) : (
+            emptyNote
+          )}
+        </div>
+
+        <div style={{ marginBottom: '24px' }}>
+          <h3 style={sectionTitle}>🧱 Highest Tile Reached</h3>
+          {tileBars.length ? (
+            <div style={card}>
+              <BarChart bars={tileBars} labelColor={palette.textSecondary} format={(count) => count.toString()} />
+            </div>
+          ) : (
+            emptyNote
+          )}
+        </div>
+
+        <div style={{ marginBottom: '24px' }}>
+          <h3 style={sectionTitle}>🥇 Best Score By</h3>
+          <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+            <button
+              onClick={() => setBestBy('boardSize')}
+              className="game-button"
+              style={toggleStyle(bestBy === 'boardSize')}
+            >
+              Board Size
+            </button>
+            <button onClick={() => setBestBy('mode')} className="game-button" style={toggleStyle(bestBy === 'mode')}>
+              Mode
+            </button>
           </div>
+          {bestBars.length ? (
+            <div style={card}>
+              <BarChart bars={bestBars} labelColor={palette.textSecondary} />
+            </div>
+          ) : (
+            emptyNote
+          )}
         </div>
 
+        {gameMode !== 'classic' && (
+          <div style={{ marginBottom: '24px' }}>
+            <h3 style={sectionTitle}>
+              {modeInfo.icon} {modeInfo.name} Records
+            </h3>
+            {records.length === 0 ? (
+              <p style={{ color: palette.textSecondary }}>No finished games yet. {modeInfo.description}.</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                {records.map((record, i) => (
+                  <div
+                    key={record.date}
+                    style={{
+                      background: 'rgba(0,0,0,0.1)',
+                      padding: '8px 12px',
+                      borderRadius: '8px',
+                      display: 'grid',
+                      gridTemplateColumns: '2rem 1fr auto',
+                      gap: '8px',
+                      alignItems: 'center',
+                    }}
+                  >
+                    <div style={{ fontWeight: 'bold', opacity: 0.7 }}>#{i + 1}</div>
+                    <div>
+                      <div style={{ fontWeight: '600' }}>
+                        {formatRecordMetric(record, modeInfo.metric, formatTime)}
+                        {record.undoUsed && ' ↶'}
+                      </div>
+                      <div style={{ fontSize: '0.8rem', opacity: 0.7 }}>
+                        {record.score} pts · {record.highestTile} tile · {record.moves} moves ·{' '}
+                        {formatTime(record.time)}
+                      </div>
+                    </div>
+                    <div style={{ fontSize: '0.8rem', opacity: 0.7 }}>
+                      {new Date(record.date).toLocaleDateString()}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div style={{ marginBottom: '24px' }}>
-          <h3 style={{ marginBottom: '12px', fontSize: '1.2rem' }}>🏆 Achievements</h3>
+          <h3 style={sectionTitle}>
+            🏆 Achievements · {ACHIEVEMENTS.filter((a) => unlocked[a.id]).length}/{ACHIEVEMENTS.length}
+          </h3>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-            {achievements.map((ach) => (
-              <div
-                key={ach.name}
-                style={{
-                  background: ach.unlocked ? 'rgba(0,255,136,0.1)' : 'rgba(255,255,255,0.05)',
-                  padding: '12px',
-                  borderRadius: '8px',
-                  display: 'flex',
-                  justifyContent: 'space-between',
-                  alignItems: 'center',
-                  opacity: ach.unlocked ? 1 : 0.5,
-                }}
-              >
-                <div>
-                  <div style={{ fontWeight: '600' }}>{ach.name}</div>
-                  <div style={{ fontSize: '0.85rem', opacity: 0.8 }}>{ach.desc}</div>
+            {ACHIEVEMENTS.map((ach) => {
+              const unlockedAt = unlocked[ach.id];
+              const { current, target } = ach.progress(achievementContext);
+              const fraction = unlockedAt ? 1 : Math.min(current / target, 1);
+              return (
+                <div
+                  key={ach.id}
+                  className="achievement-item"
+                  style={{
+                    background: unlockedAt ? 'rgba(0,255,136,0.1)' : 'rgba(0,0,0,0.1)',
+                    padding: '12px',
+                    borderRadius: '8px',
+                    display: 'flex',
+                    gap: '12px',
+                    alignItems: 'center',
+                  }}
+                >
+                  <div style={{ fontSize: '1.5rem', opacity: unlockedAt ? 1 : 0.5 }}>
+                    {unlockedAt ? ach.icon : '🔒'}
+                  </div>
+                  <div style={{ flex: 1 }}>
+                    <div style={{ fontWeight: '600' }}>{ach.name}</div>
+                    <div style={{ fontSize: '0.85rem', color: palette.textSecondary }}>
+                      {ach.description}
+                      {unlockedAt
+                        ? ` · ${new Date(unlockedAt).toLocaleDateString()}`
+                        : ach.scope === 'game' && ' (this game)'}
+                    </div>
+                    {!unlockedAt && (
+                      <div
+                        style={{
+                          marginTop: '6px',
+                          height: '6px',
+                          borderRadius: '3px',
+                          background: palette.cellBg,
+                          overflow: 'hidden',
+                        }}
+                      >
+                        <div
+                          style={{
+                            width: `${fraction * 100}%`,
+                            height: '100%',
+                            background: palette.buttonBg || '#8f7a66',
+                          }}
+                        />
+                      </div>
+                    )}
+                  </div>
                 </div>
-                <div style={{ fontSize: '1.5rem' }}>{ach.unlocked ? '✓' : '🔒'}</div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
 
@@ -1652,8 +2249,1272 @@ const StatsModal: React.FC<{
             padding: '12px',
             borderRadius: '8px',
             border: 'none',
-            background: 'rgba(255,255,255,0.2)',
-            color: '#fff',
+            background: palette.buttonBg || '#8f7a66',
+            color: '#f9f6f2',
+            cursor: 'pointer',
+            fontSize: '1rem',
+            fontWeight: '600',
+          }}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Gamepad Modal: shows the connected controller and remaps its buttons
+const GAMEPAD_ACTIONS: { action: GamepadAction; label: string }[] = [
+  { action: 'newGame', label: '🆕 New game' },
+  { action: 'undo', label: '↶ Undo' },
+  { action: 'menu', label: '☰ Menu' },
+];
+
+const GamepadModal: React.FC<{
+  mapping: GamepadMapping;
+  gamepadName: string | null;
+  theme: Theme;
+  onChange: (mapping: GamepadMapping) => void;
+  // Sends the next button press to onButton; returns a function that stops waiting
+  onCaptureButton: (onButton: (button: number) => void) => () => void;
+  onClose: () => void;
+}> = ({ mapping, gamepadName, theme, onChange, onCaptureButton, onClose }) => {
+  // Action waiting for a button press to map
+  const [listening, setListening] = useState<GamepadAction | null>(null);
+  const palette = themes[theme];
+
+  useEffect(() => {
+    if (!listening) return;
+    return onCaptureButton((button) => {
+      onChange(remapButton(mapping, listening, button));
+      setListening(null);
+    });
+  }, [listening, mapping, onChange, onCaptureButton]);
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '10px 14px',
+    borderRadius: '8px',
+    border: 'none',
+    background: palette.buttonBg || '#8f7a66',
+    color: '#f9f6f2',
+    cursor: 'pointer',
+    fontSize: '0.9rem',
+    fontWeight: '600',
+    touchAction: 'manipulation',
+    WebkitTapHighlightColor: 'transparent',
+  };
+
+  const dialogRef = useDialog(onClose);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        padding: '20px',
+      }}
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Controller"
+        tabIndex={-1}
+        style={{
+          background: palette.background,
+          color: palette.text,
+          borderRadius: '16px',
+          padding: '32px',
+          maxWidth: '420px',
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginBottom: '4px', fontSize: '2rem' }}>🎮 Controller</h2>
+        <p style={{ marginBottom: '24px', color: palette.textSecondary }}>
+          {gamepadName ? `Connected: ${gamepadName}` : 'No controller found. Connect one and press any button.'}
+        </p>
+
+        <div style={{ background: 'rgba(0,0,0,0.1)', padding: '12px 16px', borderRadius: '8px', marginBottom: '16px' }}>
+          Move with the d-pad or the left stick
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '24px' }}>
+          {GAMEPAD_ACTIONS.map(({ action, label }) => (
+            <div
+              key={action}
+              style={{
+                background: 'rgba(0,0,0,0.1)',
+                padding: '8px 8px 8px 16px',
+                borderRadius: '8px',
+                display: 'grid',
+                gridTemplateColumns: '1fr auto auto',
+                gap: '12px',
+                alignItems: 'center',
+              }}
+            >
+              <span style={{ fontWeight: '600' }}>{label}</span>
+              <span style={{ fontSize: '1.2rem', fontWeight: 'bold' }}>{formatButton(mapping[action])}</span>
+              <button
+                onClick={() => setListening(listening === action ? null : action)}
+                className="game-button"
+                style={{ ...buttonStyle, opacity: listening && listening !== action ? 0.5 : 1 }}
+              >
+                {listening === action ? 'Press a button…' : 'Remap'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+          <button
+            onClick={() => {
+              setListening(null);
+              onChange(DEFAULT_GAMEPAD_MAPPING);
+            }}
+            className="game-button"
+            style={buttonStyle}
+          >
+            Reset
+          </button>
+          <button onClick={onClose} className="game-button" style={buttonStyle}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Settings Modal
+const CHAOS_FIELDS: { kind: TileKind; label: string }[] = [
+  { kind: 'stone', label: '🪨 Stones (never move)' },
+  { kind: 'wildcard', label: '★ Wildcards (merge with anything)' },
+  { kind: 'bomb', label: '💣 Bombs (clear their row)' },
+];
+// Per kind, so specials can never crowd out numbers entirely
+const MAX_CHAOS_RATE = 0.2;
+
+const SHORTCUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'newGame', label: '🆕 New' },
+  { action: 'undo', label: '↶ Undo' },
+  { action: 'redo', label: '↷ Redo' },
+  { action: 'menu', label: '☰ Menu' },
+];
+
+const shortcutName = (action: InputAction): string =>
+  SHORTCUT_ACTIONS.find((entry) => entry.action === action)?.label ?? action;
+
+const isDirection = (value: string): value is Direction => (DIRECTIONS as string[]).includes(value);
+
+const SettingsModal: React.FC<{
+  settings: Settings;
+  onChange: (changes: Partial<Settings>) => void;
+  onNewTheme: () => void;
+  onEditTheme: () => void;
+  onClose: () => void;
+}> = ({ settings, onChange, onNewTheme, onEditTheme, onClose }) => {
+  const theme = settings.theme;
+  // Direction or shortcut waiting for a key press to bind
+  const [listening, setListening] = useState<Direction | InputAction | null>(null);
+  // Why the last key pressed wasn't bound, or what else binding it changed
+  const [keyNotice, setKeyNotice] = useState('');
+
+  const toggleListening = (target: Direction | InputAction) => {
+    setListening(listening === target ? null : target);
+    setKeyNotice('');
+  };
+
+  // Captures the key before the game sees it, so binding a key doesn't also
+  // play a move. Escape cancels. A key that can't be bound is explained and
+  // the binding keeps waiting for another one.
+  useEffect(() => {
+    if (!listening) return;
+    // Each returns the notice to show, empty when there's nothing to say
+    const bindMoveKey = (direction: Direction, key: string, label: string): string => {
+      const shortcut = findShortcut(settings.shortcuts, key);
+      if (shortcut) return `${label} is the ${shortcutName(shortcut)} shortcut; change that first`;
+      // Taking a direction's last key would leave it unplayable from the keyboard
+      const owner = findBoundDirection(settings.keyBindings, key);
+      if (owner && owner !== direction && settings.keyBindings[owner].length === 1) {
+        return `${label} is the only key for ${owner}; add another key there first`;
+      }
+      onChange({ keyBindings: bindKey(settings.keyBindings, direction, key) });
+      setListening(null);
+      return owner && owner !== direction ? `${label} moved from ${owner} to ${direction}` : '';
+    };
+    const bindShortcutKey = (action: InputAction, key: string, label: string): string => {
+      // The move would always win, so the shortcut could never fire
+      const owner = findBoundDirection(settings.keyBindings, key);
+      if (owner) return `${label} moves ${owner}; pick a key that isn't used for moving`;
+      const previous = findShortcut(settings.shortcuts, key);
+      onChange({ shortcuts: bindShortcut(settings.shortcuts, action, key) });
+      setListening(null);
+      return previous && previous !== action
+        ? `${shortcutName(previous)} now uses ${formatKey(settings.shortcuts[action])}`
+        : '';
+    };
+    const capture = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      const label = formatKey(e.key);
+      if (e.key === 'Escape') {
+        setListening(null);
+        setKeyNotice('');
+      } else if (isReservedKey(e.key)) {
+        setKeyNotice(`${label} is needed to use the page and can't be bound`);
+      } else if (isDirection(listening)) {
+        setKeyNotice(bindMoveKey(listening, e.key, label));
+      } else {
+        setKeyNotice(bindShortcutKey(listening, e.key, label));
+      }
+    };
+    window.addEventListener('keydown', capture, true);
+    return () => window.removeEventListener('keydown', capture, true);
+  }, [listening, settings.keyBindings, settings.shortcuts, onChange]);
+
+  const unbindKey = (direction: Direction, key: string) =>
+    onChange({
+      keyBindings: { ...settings.keyBindings, [direction]: settings.keyBindings[direction].filter((k) => k !== key) },
+    });
+
+  const optionStyle = (selected: boolean): React.CSSProperties => ({
+    padding: '10px 4px',
+    borderRadius: '8px',
+    border: selected ? '2px solid #fff' : '2px solid transparent',
+    background: themes[theme].cellBg,
+    color: '#fff',
+    cursor: 'pointer',
+    fontSize: '0.85rem',
+    fontWeight: '600',
+    touchAction: 'manipulation',
+    WebkitTapHighlightColor: 'transparent',
+  });
+
+  const section = (label: string, control: React.ReactNode) => (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ fontWeight: '600', marginBottom: '8px' }}>{label}</div>
+      {control}
+    </div>
+  );
+
+  const options = <T extends string | boolean>(
+    choices: { value: T; label: string }[],
+    current: T,
+    select: (value: T) => void
+  ) => (
+    <div style={{ display: 'grid', gridTemplateColumns: `repeat(${choices.length}, 1fr)`, gap: '8px' }}>
+      {choices.map((choice) => (
+        <button
+          key={choice.label}
+          onClick={() => select(choice.value)}
+          className="game-button"
+          style={optionStyle(choice.value === current)}
+        >
+          {choice.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const dialogRef = useDialog(onClose);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        padding: '20px',
+      }}
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Settings"
+        tabIndex={-1}
+        style={{
+          background: themes[theme].boardBg,
+          color: '#fff',
+          borderRadius: '16px',
+          padding: '32px',
+          maxWidth: '500px',
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginBottom: '24px', fontSize: '2rem' }}>⚙️ Settings</h2>
+
+        {section(
+          'Theme',
+          <>
+            <ThemeGallery current={theme} onSelect={(t) => onChange({ theme: t })} columns={3} />
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginTop: '8px' }}>
+              <button onClick={onNewTheme} className="game-button" style={optionStyle(false)}>
+                ＋ New Custom Theme
+              </button>
+              <button
+                onClick={onEditTheme}
+                disabled={!isCustomTheme(theme)}
+                className="game-button"
+                style={optionStyle(false)}
+              >
+                ✏️ Edit Custom Theme
+              </button>
+            </div>
+          </>
+        )}
+
+        {section(
+          'Sound',
+          options(
+            [
+              { value: true, label: '🔊 On' },
+              { value: false, label: '🔇 Muted' },
+            ],
+            settings.soundEnabled,
+            (soundEnabled) => onChange({ soundEnabled })
+          )
+        )}
+
+        {section(
+          `Volume: ${Math.round(settings.volume * 100)}%`,
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(settings.volume * 100)}
+            disabled={!settings.soundEnabled}
+            onChange={(e) => onChange({ volume: parseInt(e.target.value, 10) / 100 })}
+            style={{ width: '100%' }}
+          />
+        )}
+
+        {section(
+          'Haptics',
+          options(
+            [
+              { value: true, label: 'On' },
+              { value: false, label: 'Off' },
+            ],
+            settings.hapticsEnabled,
+            (hapticsEnabled) => onChange({ hapticsEnabled })
+          )
+        )}
+
+        {section(
+          'Motion',
+          options<MotionPreference>(
+            [
+              { value: 'system', label: 'System' },
+              { value: 'reduced', label: 'Reduced' },
+              { value: 'full', label: 'Full' },
+            ],
+            settings.motion,
+            (motion) => onChange({ motion })
+          )
+        )}
+
+        {section(
+          'Fireworks',
+          options<ParticleIntensity>(
+            [
+              { value: 'off', label: 'Off' },
+              { value: 'low', label: 'Low' },
+              { value: 'medium', label: 'Medium' },
+              { value: 'high', label: 'High' },
+            ],
+            settings.particleIntensity,
+            (particleIntensity) => onChange({ particleIntensity })
+          )
+        )}
+
+        {section(
+          'Large Numbers (6×6 and up, Classic rules)',
+          options<TileNotation>(
+            [
+              { value: 'full', label: '32768' },
+              { value: 'short', label: '32k' },
+              { value: 'power', label: '2¹⁵' },
+            ],
+            settings.tileNotation,
+            (tileNotation) => onChange({ tileNotation })
+          )
+        )}
+
+        {section(
+          'Chaos Tiles (new games)',
+          <>
+            {options(
+              [
+                { value: false, label: 'Off' },
+                { value: true, label: '🌀 On' },
+              ],
+              settings.chaos.enabled,
+              (enabled) => onChange({ chaos: { ...settings.chaos, enabled } })
+            )}
+            {settings.chaos.enabled &&
+              CHAOS_FIELDS.map(({ kind, label }) => (
+                <label key={kind} style={{ display: 'block', marginTop: '8px', fontSize: '0.9rem' }}>
+                  {label}: {Math.round(settings.chaos[kind] * 100)}% of spawns
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_CHAOS_RATE * 100}
+                    value={Math.round(settings.chaos[kind] * 100)}
+                    onChange={(e) =>
+                      onChange({ chaos: { ...settings.chaos, [kind]: parseInt(e.target.value, 10) / 100 } })
+                    }
+                    style={{ width: '100%' }}
+                  />
+                </label>
+              ))}
+          </>
+        )}
+
+        {section(
+          'Undo (new games)',
+          <>
+            {options<UndoPolicy>(
+              [
+                { value: 'none', label: 'None' },
+                { value: 'limited', label: 'Limited' },
+                { value: 'earned', label: 'Earned' },
+                { value: 'unlimited', label: 'Practice ∞' },
+              ],
+              settings.undo.policy,
+              (policy) => onChange({ undo: { ...settings.undo, policy } })
+            )}
+            {settings.undo.policy === 'limited' && (
+              <div style={{ marginTop: '8px' }}>
+                {options(
+                  UNDO_LIMITS.map((limit) => ({ value: limit.toString(), label: `${limit} per game` })),
+                  settings.undo.limit.toString(),
+                  (limit) => onChange({ undo: { ...settings.undo, limit: parseInt(limit, 10) } })
+                )}
+              </div>
+            )}
+            {settings.undo.policy === 'earned' && (
+              <p style={{ marginTop: '8px', fontSize: '0.85rem', opacity: 0.8 }}>
+                Every merge into {EARN_UNDO_TILE} or higher earns one undo.
+              </p>
+            )}
+            <div style={{ marginTop: '8px' }}>
+              {options(
+                [
+                  { value: false, label: '🎲 Re-roll spawns' },
+                  { value: true, label: '🔒 Keep spawns' },
+                ],
+                settings.undo.keepSpawns,
+                (keepSpawns) => onChange({ undo: { ...settings.undo, keepSpawns } })
+              )}
+            </div>
+          </>
+        )}
+
+        {section(
+          'Controls',
+          <>
+            {DIRECTIONS.map((direction) => (
+              <div
+                key={direction}
+                style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '6px', marginBottom: '8px' }}
+              >
+                <span style={{ width: '4.5rem', fontWeight: '600', textTransform: 'capitalize' }}>
+                  {HINT_ARROWS[direction]} {direction}
+                </span>
+                {/* Tap a key to remove it; a direction's last key stays */}
+                {settings.keyBindings[direction].map((key) => (
+                  <button
+                    key={key}
+                    onClick={() => unbindKey(direction, key)}
+                    disabled={settings.keyBindings[direction].length === 1}
+                    title={`Remove ${formatKey(key)}`}
+                    className="game-button"
+                    style={{ ...optionStyle(false), padding: '6px 10px' }}
+                  >
+                    {formatKey(key)} {settings.keyBindings[direction].length > 1 && '✕'}
+                  </button>
+                ))}
+                <button
+                  onClick={() => toggleListening(direction)}
+                  className="game-button"
+                  style={{ ...optionStyle(listening === direction), padding: '6px 10px' }}
+                >
+                  {listening === direction ? 'Press a key…' : '+ Key'}
+                </button>
+              </div>
+            ))}
+            <div style={{ margin: '12px 0 8px', fontWeight: '600' }}>Shortcuts</div>
+            {options(
+              [
+                { value: false, label: 'Off' },
+                { value: true, label: '⌨️ On' },
+              ],
+              settings.shortcutsEnabled,
+              (shortcutsEnabled) => onChange({ shortcutsEnabled })
+            )}
+            {settings.shortcutsEnabled && (
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px 12px', margin: '8px 0' }}>
+                {SHORTCUT_ACTIONS.map(({ action, label }) => (
+                  <div key={action} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <span style={{ flex: 1, fontWeight: '600' }}>{label}</span>
+                    <button
+                      onClick={() => toggleListening(action)}
+                      aria-label={`${label} shortcut: ${formatKey(settings.shortcuts[action])}`}
+                      className="game-button"
+                      style={{ ...optionStyle(listening === action), padding: '6px 10px' }}
+                    >
+                      {listening === action ? 'Press a key…' : formatKey(settings.shortcuts[action])}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() => {
+                onChange({ keyBindings: DEFAULT_KEY_BINDINGS, shortcuts: DEFAULT_SHORTCUTS });
+                setKeyNotice('');
+              }}
+              className="game-button"
+              style={{ ...optionStyle(false), width: '100%', marginTop: '8px' }}
+            >
+              Reset keys
+            </button>
+            {/* Always rendered so screen readers announce each new notice */}
+            <p role="status" style={{ margin: keyNotice ? '8px 0 0' : 0, fontSize: '0.85rem', fontWeight: '600' }}>
+              {keyNotice}
+            </p>
+            <p style={{ marginTop: '8px', fontSize: '0.85rem', opacity: 0.8 }}>
+              Keys work with caps lock or shift held. A shortcut can be any key not used for moving, such as F2;
+              turn shortcuts off if stray presses or speech input set them off. You can also swipe or drag with the
+              mouse on the board, or use a gamepad's d-pad or left stick; its buttons are mapped in ☰ → Controller.
+            </p>
+          </>
+        )}
+
+        <button
+          onClick={onClose}
+          style={{
+            width: '100%',
+            padding: '12px',
+            borderRadius: '8px',
+            border: 'none',
+            background: 'rgba(255,255,255,0.2)',
+            color: '#fff',
+            cursor: 'pointer',
+            fontSize: '1rem',
+            fontWeight: '600',
+          }}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Theme Editor
+const THEME_COLOR_FIELDS: { key: keyof Omit<ThemePalette, 'name' | 'icon' | 'tiles'>; label: string }[] = [
+  { key: 'background', label: 'Page background' },
+  { key: 'boardBg', label: 'Board' },
+  { key: 'cellBg', label: 'Empty cell' },
+  { key: 'text', label: 'Text' },
+  { key: 'textSecondary', label: 'Secondary text' },
+  { key: 'buttonBg', label: 'Button' },
+  { key: 'buttonHover', label: 'Button hover' },
+  { key: 'logoTile', label: 'Logo tile' },
+  { key: 'scoreBg', label: 'Score box' },
+];
+
+// <input type="color"> only understands #rrggbb
+const toPickerColor = (color: string | undefined): string => {
+  if (!color) return '#000000';
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color;
+  if (/^#[0-9a-f]{3}$/i.test(color)) return color.replace(/[0-9a-f]/gi, (c) => c + c);
+  return '#000000';
+};
+
+const ThemeEditor: React.FC<{
+  initial: CustomTheme;
+  isNew: boolean;
+  onSave: (theme: CustomTheme) => void;
+  onDelete: (id: Theme) => void;
+  onClose: () => void;
+}> = ({ initial, isNew, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<CustomTheme>(initial);
+  const [shareText, setShareText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState('');
+
+  const update = (changes: Partial<ThemePalette>) => setDraft((prev) => ({ ...prev, ...changes }));
+  const updateTile = (value: number, color: string) =>
+    setDraft((prev) => ({ ...prev, tiles: { ...prev.tiles, [value]: color } }));
+
+  const { id, ...palette } = draft;
+
+  const applyImport = (json: string) => {
+    const result = parseThemeJson(json);
+    if (result.ok) {
+      setDraft({ ...result.theme, id });
+      setErrors([]);
+      setNotice('Theme imported. Save to keep it.');
+    } else {
+      setErrors(result.errors);
+      setNotice('');
+    }
+  };
+
+  const handleSave = () => {
+    const result = parseThemeJson(exportThemeJson(palette));
+    if (result.ok) onSave({ ...result.theme, id });
+    else setErrors(result.errors);
+  };
+
+  const handleCopy = () => {
+    const json = exportThemeJson(palette);
+    setShareText(json);
+    navigator.clipboard?.writeText(json).then(
+      () => setNotice('Theme JSON copied to clipboard.'),
+      () => setNotice('Copy the JSON below to share it.')
+    );
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([exportThemeJson(palette)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${palette.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'theme'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(applyImport);
+  };
+
+  const lowContrast = THEME_TILE_VALUES.filter((value) => {
+    const ratio = contrastRatio(tileTextColor(palette, value), palette.tiles[value] || '');
+    return ratio !== null && ratio < MIN_TILE_CONTRAST;
+  });
+
+  const fieldRow: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '1fr 40px 1fr',
+    gap: '8px',
+    alignItems: 'center',
+    marginBottom: '6px',
+    fontSize: '0.85rem',
+  };
+  const textInput: React.CSSProperties = {
+    width: '100%',
+    padding: '6px 8px',
+    borderRadius: '6px',
+    border: 'none',
+    fontSize: '0.8rem',
+    fontFamily: 'monospace',
+  };
+  const actionButton: React.CSSProperties = {
+    padding: '10px',
+    borderRadius: '8px',
+    border: 'none',
+    background: 'rgba(255,255,255,0.2)',
+    color: '#fff',
+    cursor: 'pointer',
+    fontSize: '0.85rem',
+    fontWeight: '600',
+  };
+
+  const dialogRef = useDialog(onClose);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1001,
+        padding: '20px',
+      }}
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={isNew ? 'New theme' : 'Edit theme'}
+        tabIndex={-1}
+        style={{
+          background: '#1a1a2e',
+          color: '#fff',
+          borderRadius: '16px',
+          padding: '24px',
+          maxWidth: '560px',
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+          textAlign: 'left',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginBottom: '16px', fontSize: '1.6rem' }}>🎨 {isNew ? 'New Theme' : 'Edit Theme'}</h2>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '140px 1fr', gap: '16px', marginBottom: '16px' }}>
+          <ThemePreview palette={palette} selected={false} onSelect={() => {}} />
+          <div>
+            <label style={{ display: 'block', fontSize: '0.85rem', marginBottom: '4px' }}>Name</label>
+            <input
+              value={draft.name}
+              maxLength={40}
+              onChange={(e) => update({ name: e.target.value })}
+              style={{ ...textInput, fontFamily: 'inherit', marginBottom: '8px' }}
+            />
+            <label style={{ display: 'block', fontSize: '0.85rem', marginBottom: '4px' }}>Icon</label>
+            <input
+              value={draft.icon}
+              maxLength={4}
+              onChange={(e) => update({ icon: e.target.value })}
+              style={{ ...textInput, width: '60px' }}
+            />
+          </div>
+        </div>
+
+        <h3 style={{ fontSize: '1rem', margin: '8px 0' }}>Colors</h3>
+        {THEME_COLOR_FIELDS.map(({ key, label }) => (
+          <div key={key} style={fieldRow}>
+            <span>{label}</span>
+            <input
+              type="color"
+              value={toPickerColor(draft[key])}
+              onChange={(e) => update({ [key]: e.target.value })}
+              style={{ width: '40px', height: '28px', border: 'none', background: 'none' }}
+            />
+            <input
+              value={draft[key] ?? ''}
+              placeholder="default"
+              onChange={(e) => update({ [key]: e.target.value || undefined })}
+              style={textInput}
+            />
+          </div>
+        ))}
+
+        <h3 style={{ fontSize: '1rem', margin: '16px 0 8px' }}>Tiles</h3>
+        {THEME_TILE_VALUES.map((value) => {
+          const color = draft.tiles[value] || '';
+          const ratio = contrastRatio(tileTextColor(palette, value), color);
+          return (
+            <div key={value} style={fieldRow}>
+              <span
+                style={{
+                  background: color,
+                  color: tileTextColor(palette, value),
+                  borderRadius: '4px',
+                  padding: '2px 8px',
+                  fontWeight: 'bold',
+                  justifySelf: 'start',
+                }}
+              >
+                {value}
+                {ratio !== null && ratio < MIN_TILE_CONTRAST ? ' ⚠️' : ''}
+              </span>
+              <input
+                type="color"
+                value={toPickerColor(color)}
+                onChange={(e) => updateTile(value, e.target.value)}
+                style={{ width: '40px', height: '28px', border: 'none', background: 'none' }}
+              />
+              <input value={color} onChange={(e) => updateTile(value, e.target.value)} style={textInput} />
+            </div>
+          );
+        })}
+
+        {lowContrast.length > 0 && (
+          <p style={{ margin: '12px 0', padding: '10px', borderRadius: '8px', background: 'rgba(255,170,0,0.2)' }}>
+            ⚠️ Numbers may be hard to read on {lowContrast.join(', ')} (contrast below {MIN_TILE_CONTRAST}:1).
+          </p>
+        )}
+
+        <h3 style={{ fontSize: '1rem', margin: '16px 0 8px' }}>Share</h3>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px', marginBottom: '8px' }}>
+          <button onClick={handleCopy} style={actionButton}>
+            Copy JSON
+          </button>
+          <button onClick={handleDownload} style={actionButton}>
+            Download
+          </button>
+          <label style={{ ...actionButton, textAlign: 'center' }}>
+            Import File
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              style={{ display: 'none' }}
+            />
+          </label>
+        </div>
+        <textarea
+          value={shareText}
+          onChange={(e) => setShareText(e.target.value)}
+          placeholder="Paste theme JSON here to import it"
+          rows={4}
+          style={{ ...textInput, resize: 'vertical', marginBottom: '8px' }}
+        />
+        <button onClick={() => applyImport(shareText)} disabled={!shareText.trim()} style={{ ...actionButton, width: '100%' }}>
+          Import Pasted JSON
+        </button>
+
+        {notice && <p style={{ marginTop: '12px', opacity: 0.85 }}>{notice}</p>}
+        {errors.length > 0 && (
+          <ul style={{ margin: '12px 0 0 20px', color: '#ff8a80', fontSize: '0.85rem' }}>
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        <div style={{ display: 'grid', gridTemplateColumns: isNew ? '1fr 1fr' : '1fr 1fr 1fr', gap: '8px', marginTop: '20px' }}>
+          {!isNew && (
+            <button onClick={() => onDelete(id)} style={{ ...actionButton, background: 'rgba(255,80,80,0.4)' }}>
+              Delete
+            </button>
+          )}
+          <button onClick={onClose} style={actionButton}>
+            Cancel
+          </button>
+          <button onClick={handleSave} style={{ ...actionButton, background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)' }}>
+            Save & Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Replay Viewer
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+const REPLAY_STEP_MS = 600;
+
+const ReplayViewer: React.FC<{
+  recording: GameRecording;
+  theme: Theme;
+  // Off under reduced motion, matching live play
+  animate: boolean;
+  onClose: () => void;
+}> = ({ recording, theme, animate, onClose }) => {
+  const [frames] = useState(() => buildReplayFrames(recording));
+  const [frame, setFrame] = useState(0);
+  // Set while a single step forward slides, before the board settles
+  const [sliding, setSliding] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const lastFrame = frames.length - 1;
+
+  // Stepping forward one move slides its tiles first, like live play; any
+  // other jump shows the position straight away
+  const goTo = (next: number) => {
+    setSliding(animate && next === frame + 1);
+    setFrame(next);
+  };
+
+  useEffect(() => {
+    if (!sliding) return;
+    const timer = setTimeout(() => setSliding(false), SLIDE_MS);
+    return () => clearTimeout(timer);
+  }, [sliding, frame]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (frame >= lastFrame) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => goTo(frame + 1), REPLAY_STEP_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, speed, frame, lastFrame]);
+
+  const step = (delta: number) => {
+    setPlaying(false);
+    goTo(Math.max(0, Math.min(lastFrame, frame + delta)));
+  };
+
+  const togglePlay = () => {
+    if (!playing && frame >= lastFrame) goTo(0);
+    setPlaying(!playing);
+  };
+
+  const { state } = frames[frame];
+  const tiles = sliding ? toSlideFrame(planSlide(frames[frame - 1].state, frames[frame].events)) : state.tiles;
+  const direction = frame > 0 ? recording.moves[frame - 1].direction : null;
+  const controlStyle: React.CSSProperties = {
+    padding: '10px 0',
+    borderRadius: '8px',
+    border: 'none',
+    background: themes[theme].buttonBg || '#8f7a66',
+    color: '#f9f6f2',
+    cursor: 'pointer',
+    fontSize: '1.1rem',
+    fontWeight: '700',
+    touchAction: 'manipulation',
+    WebkitTapHighlightColor: 'transparent',
+  };
+
+  const dialogRef = useDialog(onClose);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        padding: '20px',
+      }}
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Replay"
+        tabIndex={-1}
+        style={{
+          background: themes[theme].background,
+          color: themes[theme].text,
+          borderRadius: '16px',
+          padding: '24px',
+          maxWidth: '500px',
+          width: '100%',
+          boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginBottom: '4px', fontSize: '1.6rem' }}>🎬 Replay</h2>
+        <p style={{ marginBottom: '16px', opacity: 0.7, color: themes[theme].textSecondary }}>
+          Seed #{formatSeed(recording.seed)} · {recording.size}×{recording.size}
+        </p>
+
+        <Board tiles={tiles} size={recording.size} theme={theme} ruleSet={recording.ruleSet} />
+
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            margin: '12px 0',
+            fontSize: '0.9rem',
+            fontWeight: '600',
+            color: themes[theme].textSecondary,
+          }}
+        >
+          <div>
+            Move {frame} / {lastFrame}
+            {direction ? ` · ${direction}` : ''}
+          </div>
+          <div>Score {state.score}</div>
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={lastFrame}
+          value={frame}
+          onChange={(e) => {
+            setPlaying(false);
+            goTo(parseInt(e.target.value, 10));
+          }}
+          style={{ width: '100%', marginBottom: '12px' }}
+        />
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '8px', marginBottom: '12px' }}>
+          <button onClick={() => step(-lastFrame)} aria-label="First move" className="game-button" style={controlStyle}>
+            ⏮
+          </button>
+          <button onClick={() => step(-1)} aria-label="Previous move" className="game-button" style={controlStyle}>
+            ◀
+          </button>
+          <button
+            onClick={togglePlay}
+            aria-label={playing ? 'Pause' : 'Play'}
+            className="game-button"
+            style={controlStyle}
+          >
+            {playing ? '⏸' : '▶️'}
+          </button>
+          <button onClick={() => step(1)} aria-label="Next move" className="game-button" style={controlStyle}>
+            ▶
+          </button>
+          <button onClick={() => step(lastFrame)} aria-label="Last move" className="game-button" style={controlStyle}>
+            ⏭
+          </button>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: `repeat(${REPLAY_SPEEDS.length}, 1fr)`, gap: '8px', marginBottom: '16px' }}>
+          {REPLAY_SPEEDS.map((s) => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              aria-label={`${s} times speed`}
+              aria-pressed={s === speed}
+              className="game-button"
+              style={{
+                ...controlStyle,
+                fontSize: '0.9rem',
+                background: s === speed ? controlStyle.background : themes[theme].cellBg,
+              }}
+            >
+              {s}×
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={onClose}
+          style={{
+            width: '100%',
+            padding: '12px',
+            borderRadius: '8px',
+            border: 'none',
+            background: 'rgba(0,0,0,0.2)',
+            color: themes[theme].text,
+            cursor: 'pointer',
+            fontSize: '1rem',
+            fontWeight: '600',
+          }}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Daily Challenge
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+// Copies share text, resolving to a message for the player
+const copyShareText = (text: string): Promise<string> =>
+  navigator.clipboard
+    ? navigator.clipboard.writeText(text).then(
+        () => 'Copied to clipboard!',
+        () => 'Could not copy, try again'
+      )
+    : Promise.resolve('Clipboard not available');
+
+const DailyModal: React.FC<{
+  history: DailyHistory;
+  today: string;
+  inProgress: boolean;
+  theme: Theme;
+  onPlay: () => void;
+  onClose: () => void;
+}> = ({ history, today, inProgress, theme, onPlay, onClose }) => {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [selected, setSelected] = useState(today);
+  const [notice, setNotice] = useState('');
+
+  const result = history[selected];
+  const todayResult = history[today];
+  const played = Object.keys(history).length;
+
+  // Monday-first grid, padded with blanks before the 1st
+  const leading = (month.getDay() + 6) % 7;
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const days = [
+    ...Array<null>(leading).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, i) => toDateKey(new Date(month.getFullYear(), month.getMonth(), i + 1))),
+  ];
+
+  const changeMonth = (delta: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+  };
+
+  const share = (shared: DailyResult) => {
+    copyShareText(buildShareText(shared)).then(setNotice);
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '12px',
+    borderRadius: '8px',
+    border: 'none',
+    background: themes[theme].buttonBg || '#8f7a66',
+    color: '#f9f6f2',
+    cursor: 'pointer',
+    fontSize: '1rem',
+    fontWeight: '600',
+    touchAction: 'manipulation',
+    WebkitTapHighlightColor: 'transparent',
+  };
+
+  const dialogRef = useDialog(onClose);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        padding: '20px',
+      }}
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Daily Challenge"
+        tabIndex={-1}
+        style={{
+          background: themes[theme].background,
+          color: themes[theme].text,
+          borderRadius: '16px',
+          padding: '24px',
+          maxWidth: '500px',
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginBottom: '4px', fontSize: '1.6rem' }}>📅 Daily Challenge</h2>
+        <p style={{ marginBottom: '16px', opacity: 0.7, color: themes[theme].textSecondary }}>
+          Same tiles for everyone today · one scored attempt · {played} day{played === 1 ? '' : 's'} played
+        </p>
+
+        {todayResult ? (
+          <p style={{ marginBottom: '16px', fontWeight: '600' }}>
+            Today's attempt is done. Come back tomorrow for a new board!
+          </p>
+        ) : (
+          <button onClick={onPlay} className="game-button" style={{ ...buttonStyle, width: '100%', marginBottom: '16px' }}>
+            {inProgress ? "Continue Today's Game" : "Play Today's Board"}
+          </button>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <button
+            onClick={() => changeMonth(-1)}
+            aria-label="Previous month"
+            className="game-button"
+            style={{ ...buttonStyle, padding: '6px 14px' }}
+          >
+            ‹
+          </button>
+          <div style={{ fontWeight: '600' }}>
+            {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </div>
+          <button
+            onClick={() => changeMonth(1)}
+            aria-label="Next month"
+            className="game-button"
+            style={{ ...buttonStyle, padding: '6px 14px' }}
+          >
+            ›
+          </button>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: '4px', marginBottom: '16px' }}>
+          {WEEKDAYS.map((day) => (
+            <div key={day} style={{ textAlign: 'center', fontSize: '0.75rem', opacity: 0.7 }}>
+              {day}
+            </div>
+          ))}
+          {days.map((date, i) => {
+            if (!date) return <div key={`blank-${i}`} />;
+            const dayResult = history[date];
+            return (
+              <button
+                key={date}
+                onClick={() => setSelected(date)}
+                className="game-button"
+                style={{
+                  aspectRatio: '1',
+                  borderRadius: '6px',
+                  border: date === selected ? `2px solid ${themes[theme].text}` : '2px solid transparent',
+                  background: dayResult ? getTileColor(themes[theme], dayResult.highestTile) : themes[theme].cellBg,
+                  color: dayResult ? tileTextColor(themes[theme], dayResult.highestTile) : themes[theme].text,
+                  fontWeight: date === today ? '800' : '500',
+                  fontSize: '0.85rem',
+                  cursor: 'pointer',
+                  opacity: date > today ? 0.4 : 1,
+                  touchAction: 'manipulation',
+                  WebkitTapHighlightColor: 'transparent',
+                }}
+              >
+                {parseInt(date.slice(8), 10)}
+              </button>
+            );
+          })}
+        </div>
+
+        <div
+          style={{
+            background: 'rgba(0,0,0,0.1)',
+            borderRadius: '8px',
+            padding: '12px',
+            marginBottom: '16px',
+          }}
+        >
+          <div style={{ fontWeight: '600', marginBottom: '4px' }}>{selected}</div>
+          {result ? (
+            <>
+              <div style={{ fontSize: '0.9rem', marginBottom: '8px', color: themes[theme].textSecondary }}>
+                Score {result.score} · Best tile {result.highestTile} · {result.moves} moves
+              </div>
+              <button onClick={() => share(result)} className="game-button" style={{ ...buttonStyle, width: '100%' }}>
+                📋 Copy Share Text
+              </button>
+            </>
+          ) : (
+            <div style={{ fontSize: '0.9rem', color: themes[theme].textSecondary }}>
+              {selected === today ? 'Not played yet' : 'No attempt this day'}
+            </div>
+          )}
+          {notice && <p style={{ marginTop: '8px', fontSize: '0.9rem', opacity: 0.85 }}>{notice}</p>}
+        </div>
+
+        <button
+          onClick={onClose}
+          style={{
+            width: '100%',
+            padding: '12px',
+            borderRadius: '8px',
+            border: 'none',
+            background: 'rgba(0,0,0,0.2)',
+            color: themes[theme].text,
             cursor: 'pointer',
             fontSize: '1rem',
             fontWeight: '600',
@@ -1666,18 +3527,198 @@ const StatsModal: React.FC<{
   );
 };
 
+// Win Modal
+// Shown once per game when the winning tile appears. Dismissing it keeps the
+// game going, so the overlay click counts as keep playing.
+const WinModal: React.FC<{
+  value: number;
+  score: number;
+  moves: number;
+  time: string;
+  theme: Theme;
+  onKeepPlaying: () => void;
+  onNewGame: () => void;
+}> = ({ value, score, moves, time, theme, onKeepPlaying, onNewGame }) => {
+  const buttonStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '12px',
+    borderRadius: '8px',
+    border: 'none',
+    background: themes[theme].buttonBg || '#8f7a66',
+    color: '#f9f6f2',
+    cursor: 'pointer',
+    fontSize: '1rem',
+    fontWeight: '600',
+    touchAction: 'manipulation',
+    WebkitTapHighlightColor: 'transparent',
+  };
+
+  const dialogRef = useDialog(onKeepPlaying);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        padding: '20px',
+      }}
+      onClick={onKeepPlaying}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="You won"
+        tabIndex={-1}
+        style={{
+          background: themes[theme].background,
+          color: themes[theme].text,
+          borderRadius: '16px',
+          padding: '24px',
+          maxWidth: '400px',
+          width: '100%',
+          textAlign: 'center',
+          boxShadow: '0 8px 32px rgba(0,0,0,0.5)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ fontSize: '2rem', marginBottom: '8px' }}>🎉 You Won!</h2>
+        <p style={{ marginBottom: '20px', color: themes[theme].textSecondary }}>
+          You made {value} in {moves} moves and {time} · Score {score}
+        </p>
+        <div style={{ display: 'flex', gap: '12px' }}>
+          <button onClick={onKeepPlaying} className="game-button" style={buttonStyle}>
+            Keep playing
+          </button>
+          <button onClick={onNewGame} className="game-button" style={buttonStyle}>
+            New game
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Achievement Toast
+const ACHIEVEMENT_TOAST_MS = 3500;
+
+const AchievementToast: React.FC<{ achievement: Achievement; theme: Theme }> = ({ achievement, theme }) => (
+  <div
+    className="achievement-toast"
+    role="status"
+    style={{
+      position: 'fixed',
+      top: '20px',
+      left: '50%',
+      zIndex: 1100,
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px',
+      padding: '12px 20px',
+      borderRadius: '12px',
+      background: themes[theme].buttonBg || '#8f7a66',
+      color: '#f9f6f2',
+      boxShadow: '0 4px 20px rgba(0,0,0,0.4)',
+      pointerEvents: 'none',
+      animationDelay: `0ms, ${ACHIEVEMENT_TOAST_MS - 300}ms`,
+    }}
+  >
+    <div style={{ fontSize: '2rem' }}>{achievement.icon}</div>
+    <div>
+      <div style={{ fontSize: '0.75rem', opacity: 0.85, textTransform: 'uppercase' }}>Achievement unlocked</div>
+      <div style={{ fontWeight: 'bold' }}>{achievement.name}</div>
+      <div style={{ fontSize: '0.85rem', opacity: 0.85 }}>{achievement.description}</div>
+    </div>
+  </div>
+);
+
 // Main App
+const AUTOPLAY_INTERVAL = 250;
+
 function App() {
-  const boardSize = 4;
-  const [engine, setEngine] = useState<GameEngine>(() => initGame(boardSize));
-  const [particles, setParticles] = useState<Particle[]>([]);
-  const [soundEnabled, setSoundEnabled] = useState(true);
-  const [theme, setTheme] = useState<Theme>('light'); // Default to light theme
+  const [savedGame] = useState(() => {
+    const save = loadSavedGame();
+    return save && save.state.moves > 0 && BOARD_SIZES.includes(save.boardSize) ? save : null;
+  });
+  const [boardSize, setBoardSize] = useState(() => savedGame?.boardSize ?? loadBoardSize());
+  const [gameMode, setGameMode] = useState<GameModeId>(() => savedGame?.gameMode ?? loadGameMode());
+  const [ruleSet, setRuleSet] = useState<RuleSetId>(() => savedGame?.ruleSet ?? loadRuleSet());
+  const [engine, setEngine] = useState<GameEngine>(() =>
+    savedGame
+      ? resumeGame(savedGame)
+      : initGame(boardSize, undefined, {
+          mode: gameMode,
+          ruleSet,
+          chaos: getChaosRates(loadSettings().chaos),
+          undo: loadSettings().undo,
+          dailyDate: null,
+        })
+  );
+  const [modeRecords, setModeRecords] = useState<ModeRecord[]>(() =>
+    loadModeRecords(gameMode, boardSize, ruleSet)
+  );
+  // Where the last finished game placed in its mode's table
+  const [recordRank, setRecordRank] = useState<number | null>(null);
+  // The winning tile while the keep playing prompt is open
+  const [winPrompt, setWinPrompt] = useState<number | null>(null);
+  const [unlockedAchievements, setUnlockedAchievements] = useState<UnlockedAchievements>(loadUnlockedAchievements);
+  // Unlocks waiting to be shown, one toast at a time
+  const [toasts, setToasts] = useState<Achievement[]>([]);
+  const modeInfo = MODES[gameMode];
+  const particlesRef = useRef<Particle[]>([]);
+  const [customThemes, setCustomThemeList] = useState<CustomTheme[]>(() => {
+    const custom = loadCustomThemes();
+    setCustomThemes(custom);
+    return custom;
+  });
+  const [editingTheme, setEditingTheme] = useState<{ theme: CustomTheme; isNew: boolean } | null>(null);
+  const [settings, setSettings] = useState<Settings>(() => {
+    const loaded = loadSettings();
+    // A deleted or corrupt custom theme falls back to the default
+    return themes[loaded.theme] ? loaded : { ...loaded, theme: DEFAULT_SETTINGS.theme };
+  });
+  const { theme, soundEnabled } = settings;
+  const [systemReducedMotion, setSystemReducedMotion] = useState(
+    () => window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  );
+  const reducedMotion = settings.motion === 'reduced' || (settings.motion === 'system' && systemReducedMotion);
   const [showStats, setShowStats] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showDaily, setShowDaily] = useState(false);
+  const [dailyHistory, setDailyHistory] = useState<DailyHistory>(loadDailyHistory);
+  const [shareNotice, setShareNotice] = useState('');
   const [showStartButton, setShowStartButton] = useState(true);
   const [showMenu, setShowMenu] = useState(false);
-  const [gameTime, setGameTime] = useState(0);
-  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+  // The New button's choice of a fresh seed or a replay of this one
+  const [showNewOptions, setShowNewOptions] = useState(false);
+  const [hint, setHint] = useState<Direction | null>(null);
+  // Read out by screen readers after each move
+  const [announcement, setAnnouncement] = useState('');
+  // The previous board's tiles at their destinations while a move slides
+  const [slideFrame, setSlideFrame] = useState<Tile[] | null>(null);
+  // handleMove reads the slide and the clock through refs, so it stays the same
+  // function between moves and autoplay doesn't restart its search every second
+  const slideFrameRef = useRef(slideFrame);
+  slideFrameRef.current = slideFrame;
+  const slideTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  // One move is buffered while the board slides; a newer one replaces it
+  const queuedMoveRef = useRef<Direction | null>(null);
+  const [autoplay, setAutoplay] = useState(false);
+  const [aiDifficulty, setAiDifficulty] = useState<Difficulty>('normal');
+  const [gameTime, setGameTime] = useState(savedGame?.gameTime ?? 0);
+  const gameTimeRef = useRef(gameTime);
+  gameTimeRef.current = gameTime;
+  const [input] = useState(() => new InputManager());
+  const boardRef = useRef<HTMLDivElement>(null);
+  // Name of the connected controller, if any; switches the HUD to its glyphs
+  const [gamepadName, setGamepadName] = useState<string | null>(null);
+  const [showGamepad, setShowGamepad] = useState(false);
 
   const initializeAudio = useCallback(() => {
     audioSystem.init();
@@ -1705,22 +3746,97 @@ function App() {
     audioSystem.setEnabled(soundEnabled);
   }, [soundEnabled]);
 
+  const updateSettings = (changes: Partial<Settings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  };
+
   useEffect(() => {
-    const interval = setInterval(() => {
-      setParticles((prev) => updateParticles(prev));
-    }, 50);
-    return () => clearInterval(interval);
+    saveSettings(settings);
+    audioSystem.setVolume(settings.volume);
+    setHapticsEnabled(settings.hapticsEnabled);
+  }, [settings]);
+
+  const storeCustomThemes = (custom: CustomTheme[]) => {
+    setCustomThemes(custom);
+    saveCustomThemes(custom);
+    setCustomThemeList(custom);
+  };
+
+  const handleSaveTheme = (theme: CustomTheme) => {
+    const exists = customThemes.some((t) => t.id === theme.id);
+    storeCustomThemes(exists ? customThemes.map((t) => (t.id === theme.id ? theme : t)) : [...customThemes, theme]);
+    updateSettings({ theme: theme.id });
+    setEditingTheme(null);
+  };
+
+  const handleDeleteTheme = (id: Theme) => {
+    if (theme === id) updateSettings({ theme: DEFAULT_SETTINGS.theme });
+    storeCustomThemes(customThemes.filter((t) => t.id !== id));
+    setEditingTheme(null);
+  };
+
+  const openThemeEditor = (isNew: boolean) => {
+    if (isNew) {
+      // Start from the active palette so small tweaks are easy
+      const base = themes[theme];
+      setEditingTheme({
+        theme: { ...base, tiles: { ...base.tiles }, id: createCustomThemeId(), name: `${base.name} Custom`, icon: '🎨' },
+        isNew: true,
+      });
+    } else {
+      const current = customThemes.find((t) => t.id === theme);
+      if (current) setEditingTheme({ theme: current, isNew: false });
+    }
+  };
+
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const onChange = (e: MediaQueryListEvent) => setSystemReducedMotion(e.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
   }, []);
 
   // Timer
   useEffect(() => {
     const interval = setInterval(() => {
-      if (!engine.state.gameOver && !showStartButton) {
+      // The clock stops while the player decides whether to keep playing
+      if (!engine.state.gameOver && !showStartButton && winPrompt === null) {
         setGameTime((prev) => prev + 1);
       }
     }, 1000);
     return () => clearInterval(interval);
-  }, [engine.state.gameOver, showStartButton]);
+  }, [engine.state.gameOver, showStartButton, winPrompt]);
+
+
+  // Persist the game in progress so a reload can continue it. Only a move or
+  // a new game rewrites the save; the clock is saved on its own.
+  useEffect(() => {
+    if (engine.state.gameOver) {
+      clearSavedGame();
+      return;
+    }
+    saveGame({
+      boardSize,
+      gameMode,
+      ruleSet,
+      gameTime: gameTimeRef.current,
+      state: engine.state,
+      history: engine.history,
+      future: engine.future,
+      undoPolicy: engine.undoPolicy,
+      keepSpawns: engine.keepSpawns,
+      undosRemaining: engine.undosRemaining,
+      undosUsed: engine.undosUsed,
+      rng: engine.rng,
+      recording: engine.recording,
+      dailyDate: engine.dailyDate,
+      chaos: engine.chaos,
+    });
+  }, [engine, boardSize, gameMode, ruleSet]);
+
+  useEffect(() => {
+    if (!engine.state.gameOver) saveGameTime(gameTime);
+  }, [gameTime]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -1728,21 +3844,145 @@ function App() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const getAchievementContext = (): AchievementContext => ({
+    game: {
+      score: engine.state.score,
+      highestTile: toClassicValue(ruleSet, getHighestTile(engine.state)),
+      moves: engine.state.moves,
+      bestCombo: engine.state.bestCombo,
+      undosUsed: engine.undosUsed,
+      won: engine.state.won,
+    },
+    stats: loadCareerStats(),
+    themesPlayed: loadThemesPlayed(),
+  });
+
+  // Runs after every move and every counted game. Newly met achievements are
+  // stored and queued as toasts.
+  const checkAchievements = () => {
+    const unlocks = findNewUnlocks(getAchievementContext(), unlockedAchievements);
+    if (!unlocks.length) return;
+    setUnlockedAchievements(saveUnlocks(unlocks));
+    setToasts((queue) => [...queue, ...unlocks]);
+  };
+
+  // Achievements already met before they were tracked unlock quietly
+  useEffect(() => {
+    const unlocks = findNewUnlocks(getAchievementContext(), unlockedAchievements);
+    if (unlocks.length) setUnlockedAchievements(saveUnlocks(unlocks));
+  }, []);
+
+  useEffect(() => {
+    if (!toasts.length) return;
+    triggerHaptic('medium');
+    if (soundEnabled) audioSystem.playAchievement();
+    const timer = setTimeout(() => setToasts((queue) => queue.slice(1)), ACHIEVEMENT_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toasts[0]]);
+
+  // The one place a game is counted: called when it ends, whether the board
+  // locked up or a mode's own limit was reached, or when a started game is
+  // walked away from
+  const finishGame = (outcome: GameOutcome) => {
+    const { state } = engine;
+    const stats = loadStats(boardSize, ruleSet);
+    stats.gamesPlayed++;
+    stats.totalScore += state.score;
+    stats.bestCombo = Math.max(stats.bestCombo, state.bestCombo);
+    stats.highestTile = Math.max(stats.highestTile, getHighestTile(state));
+    if (state.won) stats.gamesWon++;
+    if (engine.undosUsed > 0) stats.gamesWithUndo++;
+    saveStats(stats, boardSize, ruleSet);
+
+    addGameHistory({
+      date: new Date().toISOString(),
+      score: state.score,
+      highestTile: getHighestTile(state),
+      moves: state.moves,
+      duration: gameTimeRef.current,
+      undosUsed: engine.undosUsed,
+      bestCombo: state.bestCombo,
+      won: state.won,
+      outcome,
+      mode: gameMode,
+      ruleSet,
+      boardSize,
+    });
+
+    // Walking away from a daily board still uses up that day's attempt
+    if (engine.dailyDate) {
+      setDailyHistory(saveDailyResult(createDailyResult(engine.dailyDate, state)));
+    }
+
+    // Abandoned games never make the record tables, and a race only counts
+    // if the target was reached
+    if (outcome === 'abandoned' || gameMode === 'classic') return;
+    if (modeInfo.metric === 'time' && outcome !== 'targetReached') return;
+    const { records, rank } = addModeRecord(
+      modeRecords,
+      {
+        score: engine.state.score,
+        highestTile: getHighestTile(engine.state),
+        moves: engine.state.moves,
+        time: gameTimeRef.current,
+        date: new Date().toISOString(),
+        undoUsed: engine.undosUsed > 0,
+      },
+      gameMode
+    );
+    saveModeRecords(records, gameMode, boardSize, ruleSet);
+    setModeRecords(records);
+    setRecordRank(rank);
+  };
+
+  // Time Attack ends when the clock reaches the mode's limit
+  useEffect(() => {
+    const result = checkTimeLimit(engine.state, modeInfo.rules, gameTime);
+    if (!result.events.length) return;
+    engine.state = result.state;
+    finishGame('timeUp');
+    setAnnouncement('Time is up, game over');
+    checkAchievements();
+    setEngine({ ...engine });
+    if (soundEnabled) audioSystem.playGameOver();
+  }, [gameTime, engine, modeInfo]);
+
   const handleMove = useCallback(
     (direction: Direction) => {
-      if (engine.state.gameOver) return;
+      if (engine.state.gameOver || showReplay || winPrompt !== null) return;
 
-      // Debounce moves to prevent double-taps
-      const now = Date.now();
-      if ((window as any).lastMoveTime && now - (window as any).lastMoveTime < 180) {
-        return; // Ignore move if too soon after last one
+      // A move made mid-slide waits until the board settles
+      if (slideFrameRef.current) {
+        queuedMoveRef.current = direction;
+        return;
       }
-      (window as any).lastMoveTime = now;
 
-      const oldState = JSON.parse(JSON.stringify(engine.state));
-      const moved = move(engine, direction, boardSize);
+      // Taken before the move advances the generator, so undo can rewind it
+      const snapshot: Snapshot = { state: engine.state, rng: { ...engine.rng } };
+      const result = move(
+        engine.state,
+        direction,
+        boardSize,
+        toRandomSource(engine.rng),
+        { mode: modeInfo.rules, chaos: engine.chaos, ruleSet }
+      );
+
+      if (result.moved) {
+        engine.state = result.state;
+        recordMove(engine.recording, direction, result.events);
+        setHint(null);
+        setAnnouncement(describeMove(snapshot.state, direction, result.events));
+
+        if (gameMode === 'classic' && engine.state.score > engine.highScore) {
+          engine.highScore = engine.state.score;
+          engine.highScoreUsedUndo = engine.undosUsed > 0;
+          saveHighScore(engine.highScore, boardSize, ruleSet, engine.highScoreUsedUndo);
+        }
+
+        if (result.events.some((e) => e.type === 'gameOver')) {
+          finishGame(engine.state.endReason ?? 'noMoves');
+        }
 
-      if (moved) {
         triggerHaptic('light'); // Haptic for tile movement
         if (soundEnabled) audioSystem.playMove();
 
@@ -1750,139 +3990,360 @@ function App() {
 
         mergedTiles.forEach((tile) => {
           const cellSize = 100 / boardSize;
-          const gap = cellSize * 0.05;
           const x = tile.col * cellSize + cellSize / 2;
           const y = tile.row * cellSize + cellSize / 2;
-          const color = themes[theme].tiles[tile.value] || '#fff';
+          const tier = toClassicValue(ruleSet, tile.value);
+          const color = getTileColor(themes[theme], tier);
 
           // Use enhanced fireworks for 32+
-          if (tile.value >= 32) {
-            triggerHaptic(tile.value >= 128 ? 'heavy' : 'medium');
-            
-            // CSS shine effect instead of particles for 60fps
-            // The tile-merged class triggers the shine animation in CSS
-            
-            if (soundEnabled) audioSystem.playMerge(tile.value, engine.state.comboCount);
+          if (tier >= 32) {
+            triggerHaptic(tier >= 128 ? 'heavy' : 'medium');
+
+            if (!reducedMotion) {
+              const fireworks = thinParticles(
+                createEnhancedFireworks(x, y, tier, color),
+                PARTICLE_INTENSITY[settings.particleIntensity]
+              );
+              particlesRef.current = [...particlesRef.current, ...fireworks].slice(-MAX_PARTICLES);
+            }
+
+            if (soundEnabled) audioSystem.playMerge(tier, engine.state.comboCount);
           } else {
             triggerHaptic('light');
           }
         });
 
+        result.events.forEach((event) => {
+          if (event.type === 'won') {
+            const stats = loadStats(boardSize, ruleSet);
+            if (!stats.firstWin) {
+              stats.firstWin = { time: gameTimeRef.current, moves: engine.state.moves, date: new Date().toISOString() };
+              saveStats(stats, boardSize, ruleSet);
+            }
+            if (soundEnabled) setTimeout(() => audioSystem.playWin(), 300);
+            // A race is over once the target is reached, so there's nothing to keep playing
+            if (!engine.state.gameOver) {
+              setAutoplay(false);
+              setWinPrompt(event.value);
+            }
+            return;
+          }
+
+          if (event.type === 'milestone') {
+            triggerHaptic('heavy');
+            if (soundEnabled) setTimeout(() => audioSystem.playMilestone(event.level), 300);
+            if (reducedMotion) return;
+            const cellSize = 100 / boardSize;
+            const tier = toClassicValue(ruleSet, event.value);
+            const fireworks = createMilestoneFireworks(
+              event.at.col * cellSize + cellSize / 2,
+              event.at.row * cellSize + cellSize / 2,
+              event.level,
+              getTileColor(themes[theme], tier)
+            );
+            particlesRef.current = [
+              ...particlesRef.current,
+              ...thinParticles(fireworks, PARTICLE_INTENSITY[settings.particleIntensity]),
+            ].slice(-MAX_PARTICLES);
+            return;
+          }
+
+          if (event.type !== 'exploded') return;
+          triggerHaptic('heavy');
+          if (soundEnabled) audioSystem.playExplosion();
+          if (reducedMotion) return;
+
+          // A burst at every cell along the cleared row
+          const cellSize = 100 / boardSize;
+          const y = event.row * cellSize + cellSize / 2;
+          const bursts = Array.from({ length: boardSize }, (_, col) =>
+            createEnhancedFireworks(col * cellSize + cellSize / 2, y, 32, '#ff7b00')
+          ).flat();
+          particlesRef.current = [
+            ...particlesRef.current,
+            ...thinParticles(bursts, PARTICLE_INTENSITY[settings.particleIntensity]),
+          ].slice(-MAX_PARTICLES);
+        });
+
         if (engine.state.comboCount > 1 && soundEnabled) {
           triggerHaptic('medium'); // Haptic for combos
           audioSystem.playCombo(engine.state.comboCount);
         }
 
-        engine.history.push(oldState);
-        if (engine.history.length > 10) engine.history.shift();
+        engine.history.push(snapshot);
+        engine.future = [];
+        if (engine.undoPolicy === 'earned') {
+          engine.undosRemaining += mergedTiles.filter((t) => toClassicValue(ruleSet, t.value) >= EARN_UNDO_TILE).length;
+        }
 
+        markThemePlayed(theme);
+        checkAchievements();
+        if (!reducedMotion) {
+          setSlideFrame(toSlideFrame(planSlide(snapshot.state, result.events)));
+          slideTimerRef.current = setTimeout(() => setSlideFrame(null), SLIDE_MS);
+        }
         setEngine({ ...engine });
 
-        if (engine.state.won && soundEnabled) {
-          setTimeout(() => audioSystem.playWin(), 300);
-        } else if (engine.state.gameOver && soundEnabled) {
+        if (engine.state.gameOver && !engine.state.won && soundEnabled) {
           setTimeout(() => audioSystem.playGameOver(), 300);
         }
+      } else {
+        setAnnouncement(`Can't move ${direction}`);
       }
     },
-    [engine, soundEnabled, theme, boardSize]
+    [
+      engine,
+      soundEnabled,
+      theme,
+      boardSize,
+      gameMode,
+      ruleSet,
+      modeInfo,
+      modeRecords,
+      showReplay,
+      winPrompt,
+      unlockedAchievements,
+      reducedMotion,
+      settings.particleIntensity,
+    ]
   );
 
-  const handleRestart = () => {
-    const stats = loadStats();
-    stats.gamesPlayed++;
-    if (engine.state.won) stats.gamesWon++;
-    stats.totalScore += engine.state.score;
-    stats.bestCombo = Math.max(stats.bestCombo, engine.state.comboCount);
-    const highestTile = Math.max(...engine.state.tiles.map((t) => t.value));
-    stats.highestTile = Math.max(stats.highestTile, highestTile);
-    saveStats(stats);
-
-    setEngine(initGame(boardSize));
-    setParticles([]);
-    setGameTime(0); // Reset timer
+  // Plays the move that arrived mid-slide once the board has settled
+  useEffect(() => {
+    if (slideFrame || !queuedMoveRef.current) return;
+    const direction = queuedMoveRef.current;
+    queuedMoveRef.current = null;
+    handleMove(direction);
+  }, [slideFrame, handleMove]);
+
+  useEffect(() => () => clearTimeout(slideTimerRef.current), []);
+
+  // Jumps straight to the settled board, dropping any move waiting on the slide
+  const cancelSlide = () => {
+    clearTimeout(slideTimerRef.current);
+    queuedMoveRef.current = null;
+    setSlideFrame(null);
   };
 
-  const handleUndo = () => {
-    if (engine.undosRemaining > 0 && engine.history.length > 0) {
-      const previousState = engine.history.pop()!;
-      engine.state = previousState;
-      engine.undosRemaining--;
-      setEngine({ ...engine });
-      setParticles([]);
-    }
+  const handleHint = () => {
+    const state = engine.state;
+    if (state.gameOver) return;
+    solverClient.findBestMove(state, boardSize, DIFFICULTY_DEPTH[aiDifficulty], ruleSet).then(({ direction }) => {
+      // Ignore answers for a board that has since changed
+      if (engine.state !== state) return;
+      setHint(direction);
+      setAnnouncement(direction ? `Hint: move ${direction}` : 'No moves left');
+    });
   };
 
+  // Autoplay: ask the solver for a move whenever the board changes, then play
+  // it once at least AUTOPLAY_INTERVAL has passed
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const dirMap: Record<string, Direction> = {
-        ArrowUp: 'up',
-        ArrowDown: 'down',
-        ArrowLeft: 'left',
-        ArrowRight: 'right',
-        w: 'up',
-        s: 'down',
-        a: 'left',
-        d: 'right',
-      };
+    if (!autoplay || showStartButton || showReplay) return;
+    if (engine.state.gameOver) {
+      setAutoplay(false);
+      return;
+    }
 
-      if (dirMap[e.key]) {
-        e.preventDefault();
-        handleMove(dirMap[e.key]);
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const started = Date.now();
+    const depth = DIFFICULTY_DEPTH[aiDifficulty];
+    solverClient.findBestMove(engine.state, boardSize, depth, ruleSet).then(({ direction }) => {
+      if (cancelled) return;
+      if (!direction) {
+        setAutoplay(false);
+        return;
       }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleMove]);
+      timer = setTimeout(() => handleMove(direction), Math.max(0, AUTOPLAY_INTERVAL - (Date.now() - started)));
+    });
 
-  useEffect(() => {
-    const handleTouchStart = (e: TouchEvent) => {
-      e.preventDefault(); // Prevent page scrolling
-      touchStartRef.current = {
-        x: e.touches[0].clientX,
-        y: e.touches[0].clientY,
-      };
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
     };
+  }, [autoplay, engine, boardSize, aiDifficulty, showStartButton, showReplay, handleMove]);
+
+  const handleRestart = (
+    seed?: number,
+    changes: { size?: number; mode?: GameModeId; rules?: RuleSetId; dailyDate?: string } = {}
+  ) => {
+    const { size = boardSize, mode = gameMode, rules = ruleSet, dailyDate = null } = changes;
+    // Finished games were counted when they ended, and an untouched board
+    // isn't a game yet
+    if (!engine.state.gameOver && engine.state.moves > 0) {
+      finishGame('abandoned');
+      checkAchievements();
+    }
 
-    const handleTouchEnd = (e: TouchEvent) => {
-      e.preventDefault(); // Prevent page scrolling
-      if (!touchStartRef.current) return;
+    if (size !== boardSize) {
+      setBoardSize(size);
+      saveBoardSize(size);
+    }
+    if (mode !== gameMode) {
+      setGameMode(mode);
+      saveGameMode(mode);
+    }
+    if (rules !== ruleSet) {
+      setRuleSet(rules);
+      saveRuleSet(rules);
+    }
+    if (size !== boardSize || mode !== gameMode || rules !== ruleSet) {
+      setModeRecords(loadModeRecords(mode, size, rules));
+    }
+    setEngine(
+      initGame(size, seed, {
+        mode,
+        ruleSet: rules,
+        // The daily board is the same for everyone, so it never has chaos
+        // tiles, and undo would make the attempt easier than everyone else's
+        chaos: dailyDate ? null : getChaosRates(settings.chaos),
+        undo: dailyDate ? { ...settings.undo, policy: 'none' } : settings.undo,
+        dailyDate,
+      })
+    );
+    cancelSlide();
+    setShowNewOptions(false);
+    setAnnouncement('New game');
+    setRecordRank(null);
+    setWinPrompt(null);
+    setShareNotice('');
+    setHint(null);
+    setAutoplay(false);
+    particlesRef.current = [];
+    setGameTime(0); // Reset timer
+  };
 
-      const deltaX = e.changedTouches[0].clientX - touchStartRef.current.x;
-      const deltaY = e.changedTouches[0].clientY - touchStartRef.current.y;
+  const startDaily = () => {
+    const today = getTodayKey();
+    setShowDaily(false);
+    if (dailyHistory[today] || (engine.dailyDate === today && !engine.state.gameOver)) return;
+    handleRestart(getDailySeed(today), { size: DAILY_BOARD_SIZE, mode: 'classic', rules: 'classic', dailyDate: today });
+  };
 
-      if (Math.abs(deltaX) > Math.abs(deltaY)) {
-        if (Math.abs(deltaX) >= 30) {
-          handleMove(deltaX > 0 ? 'right' : 'left');
-        }
-      } else {
-        if (Math.abs(deltaY) >= 30) {
-          handleMove(deltaY > 0 ? 'down' : 'up');
+  const gameOverCopy = (() => {
+    const { score, moves, endReason } = engine.state;
+    switch (endReason) {
+      case 'timeUp':
+        return { title: "⏰ Time's Up!", detail: `You scored ${score} in ${formatTime(gameTime)}` };
+      case 'outOfMoves':
+        return {
+          title: '🎯 Budget Spent!',
+          detail: `Best tile ${getHighestTile(engine.state)} in ${moves} moves · Score ${score}`,
+        };
+      case 'targetReached':
+        return { title: '🏁 Target Reached!', detail: `Finished in ${formatTime(gameTime)} and ${moves} moves` };
+      default:
+        if (gameMode === 'classic') {
+          // Winning earlier doesn't change that the board locked up
+          return {
+            title: '💀 Game Over!',
+            detail: engine.state.won
+              ? `Best tile ${getHighestTile(engine.state)} · Final Score: ${score}`
+              : `Final Score: ${score}`,
+          };
         }
-      }
+        return { title: '💀 Board Locked!', detail: `No moves left · Score ${score}` };
+    }
+  })();
 
-      touchStartRef.current = null;
-    };
+  const undoAvailable = !engine.state.gameOver && canUndo(engine.undoPolicy, engine.undosRemaining, engine.history);
+  const redoAvailable = !engine.state.gameOver && engine.future.length > 0;
 
-    window.addEventListener('touchstart', handleTouchStart, { passive: false });
-    window.addEventListener('touchend', handleTouchEnd, { passive: false });
+  const handleUndo = () => {
+    if (!undoAvailable) return;
+    const previous = engine.history.pop()!;
+    engine.future.push({ state: engine.state, rng: { ...engine.rng }, move: engine.recording.moves.pop() });
+    engine.state = previous.state;
+    // Otherwise the generator carries on, so the move is followed by a fresh spawn
+    if (engine.keepSpawns) engine.rng = { ...previous.rng };
+    if (engine.undoPolicy !== 'unlimited') engine.undosRemaining--;
+    engine.undosUsed++;
+    cancelSlide();
+    setHint(null);
+    setAnnouncement('Undid a move');
+    setEngine({ ...engine });
+    particlesRef.current = [];
+  };
 
-    return () => {
-      window.removeEventListener('touchstart', handleTouchStart);
-      window.removeEventListener('touchend', handleTouchEnd);
-    };
-  }, [handleMove]);
+  // Steps forward to the position undo left, spawns and all
+  const handleRedo = () => {
+    if (!redoAvailable) return;
+    const next = engine.future.pop()!;
+    engine.history.push({ state: engine.state, rng: { ...engine.rng } });
+    engine.state = next.state;
+    engine.rng = { ...next.rng };
+    if (next.move) engine.recording.moves.push(next.move);
+    cancelSlide();
+    setHint(null);
+    setAnnouncement('Redid a move');
+    setEngine({ ...engine });
+    particlesRef.current = [];
+  };
 
-  const cycleTheme = () => {
-    const themes: Theme[] = ['light', 'dark', 'neon', 'sunset', 'ocean', 'forest'];
-    const currentIndex = themes.indexOf(theme);
-    const nextIndex = (currentIndex + 1) % themes.length;
-    setTheme(themes[nextIndex]);
+  // Keys, swipes and buttons don't reach the board behind an open dialog
+  const dialogOpen =
+    showStartButton ||
+    showMenu ||
+    showStats ||
+    showSettings ||
+    showGamepad ||
+    showReplay ||
+    showDaily ||
+    editingTheme !== null ||
+    winPrompt !== null;
+
+  useEffect(() => {
+    input.setMoveHandler((direction) => {
+      if (!dialogOpen) handleMove(direction);
+    });
+  }, [input, handleMove, dialogOpen]);
+
+  useEffect(() => input.setKeyBindings(settings.keyBindings), [input, settings.keyBindings]);
+
+  useEffect(
+    () => input.setShortcuts(settings.shortcutsEnabled ? settings.shortcuts : null),
+    [input, settings.shortcutsEnabled, settings.shortcuts]
+  );
+
+  useEffect(() => input.setGamepadMapping(settings.gamepadMapping), [input, settings.gamepadMapping]);
+
+  useEffect(() => input.setGamepadListener(setGamepadName), [input]);
+
+  // The menu shortcut also closes the menu; everything else waits until
+  // dialogs are closed, so testing a button on the remapping screen can't
+  // start a new game. New game opens the same options as the New button and
+  // only starts over when pressed again, so a stray press can't abandon a game.
+  const handleAction = (action: InputAction) => {
+    if (action === 'menu' && (showMenu || !dialogOpen)) setShowMenu(!showMenu);
+    if (dialogOpen) return;
+    if (action === 'undo') handleUndo();
+    else if (action === 'redo') handleRedo();
+    else if (action === 'newGame' && showNewOptions) handleRestart();
+    else if (action === 'newGame') {
+      setShowNewOptions(true);
+      setAnnouncement('Start a new game? Press again for a new seed');
+    }
   };
+  const handleActionRef = useRef(handleAction);
+  handleActionRef.current = handleAction;
+
+  useEffect(() => input.setActionHandler((action) => handleActionRef.current(action)), [input]);
+
+  useEffect(() => {
+    const detachKeyboard = input.attachKeyboard(window);
+    const detachGamepads = input.attachGamepads();
+    const detachSwipes = boardRef.current ? input.attachSwipes(boardRef.current) : () => {};
+    return () => {
+      detachKeyboard();
+      detachGamepads();
+      detachSwipes();
+    };
+  }, [input]);
 
   return (
     <div
+      className={reducedMotion ? 'reduced-motion' : undefined}
       style={{
         minHeight: '100vh',
         background: themes[theme].background,
@@ -1894,23 +4355,74 @@ function App() {
         justifyContent: 'center',
       }}
     >
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+
       <div style={{ maxWidth: '600px', width: '100%', position: 'relative' }}>
         <HUD
           score={engine.state.score}
-          highScore={engine.highScore}
+          bestLabel={
+            gameMode === 'classic'
+              ? engine.highScoreUsedUndo ? 'BEST ↶' : 'BEST'
+              : modeInfo.metric === 'time' ? 'FASTEST' : 'RECORD'
+          }
+          best={
+            gameMode === 'classic'
+              ? engine.highScore.toString()
+              : modeRecords.length
+                ? `${formatRecordMetric(modeRecords[0], modeInfo.metric, formatTime)}${modeRecords[0].undoUsed ? ' ↶' : ''}`
+                : '—'
+          }
           moves={engine.state.moves}
           comboCount={engine.state.comboCount}
-          undosRemaining={engine.undosRemaining}
+          canUndo={undoAvailable}
+          canRedo={redoAvailable}
+          buttonGlyphs={
+            gamepadName
+              ? {
+                  newGame: formatButton(settings.gamepadMapping.newGame),
+                  undo: formatButton(settings.gamepadMapping.undo),
+                  menu: formatButton(settings.gamepadMapping.menu),
+                }
+              : null
+          }
+          shortcutKeys={settings.shortcutsEnabled ? settings.shortcuts : null}
+          undoBadge={
+            engine.undoPolicy === 'unlimited'
+              ? '∞'
+              : engine.undoPolicy === 'none' ? null : engine.undosRemaining.toString()
+          }
           soundEnabled={soundEnabled}
           theme={theme}
           gameTime={gameTime}
           showMenu={showMenu}
-          onRestart={handleRestart}
+          showNewOptions={showNewOptions}
+          seed={engine.rng.seed}
+          boardSize={boardSize}
+          gameMode={gameMode}
+          ruleSet={ruleSet}
+          onRestart={() => handleRestart()}
+          onReplaySeed={() => handleRestart(engine.rng.seed)}
+          onToggleNewOptions={() => setShowNewOptions(!showNewOptions)}
           onUndo={handleUndo}
-          onToggleSound={() => setSoundEnabled(!soundEnabled)}
-          onToggleTheme={cycleTheme}
+          onRedo={handleRedo}
+          onToggleSound={() => updateSettings({ soundEnabled: !soundEnabled })}
+          onSelectTheme={(t) => updateSettings({ theme: t })}
           onShowStats={() => setShowStats(true)}
+          onShowSettings={() => setShowSettings(true)}
+          onShowGamepad={() => setShowGamepad(true)}
+          onShowReplay={() => setShowReplay(true)}
+          onShowDaily={() => setShowDaily(true)}
           onToggleMenu={() => setShowMenu(!showMenu)}
+          onChangeBoardSize={(size) => handleRestart(undefined, { size })}
+          onChangeMode={(mode) => handleRestart(undefined, { mode })}
+          onChangeRuleSet={(rules) => handleRestart(undefined, { rules })}
+          autoplay={autoplay}
+          aiDifficulty={aiDifficulty}
+          onHint={handleHint}
+          onToggleAutoplay={() => setAutoplay(!autoplay)}
+          onChangeAiDifficulty={setAiDifficulty}
           formatTime={formatTime}
         />
 
@@ -1939,7 +4451,16 @@ function App() {
           </p>
         </div>
 
-        <Board tiles={engine.state.tiles} size={boardSize} theme={theme} particles={particles} />
+        <Board
+          containerRef={boardRef}
+          tiles={slideFrame ?? engine.state.tiles}
+          size={boardSize}
+          theme={theme}
+          particlesRef={particlesRef}
+          hint={hint}
+          notation={settings.tileNotation}
+          ruleSet={ruleSet}
+        />
 
         <div
           style={{
@@ -1952,12 +4473,24 @@ function App() {
             color: themes[theme].textSecondary,
           }}
         >
-          <div>{engine.state.moves} moves</div>
-          <div>{formatTime(gameTime)}</div>
+          <div>
+            {modeInfo.rules.kind === 'moveBudget'
+              ? `${modeInfo.rules.moves - engine.state.moves} moves left`
+              : `${engine.state.moves} moves`}
+          </div>
+          <div>{engine.dailyDate ? `📅 Daily ${engine.dailyDate}` : `Seed #${formatSeed(engine.rng.seed)}`}</div>
+          <div>
+            {modeInfo.rules.kind === 'timeAttack'
+              ? `⏱ ${formatTime(Math.max(0, modeInfo.rules.seconds - gameTime))} left`
+              : formatTime(gameTime)}
+          </div>
         </div>
 
         {engine.state.gameOver && (
           <div
+            role="alertdialog"
+            aria-labelledby="game-over-title"
+            aria-describedby="game-over-detail"
             style={{
               marginTop: '20px',
               padding: '20px',
@@ -1966,37 +4499,175 @@ function App() {
               textAlign: 'center',
             }}
           >
-            <h2 style={{ fontSize: '2rem', marginBottom: '8px' }}>
-              {engine.state.won ? '🎉 You Won!' : '💀 Game Over!'}
+            <h2 id="game-over-title" style={{ fontSize: '2rem', marginBottom: '8px' }}>
+              {gameOverCopy.title}
             </h2>
-            <p style={{ marginBottom: '16px', opacity: 0.9 }}>
-              Final Score: {engine.state.score}
+            <p id="game-over-detail" style={{ marginBottom: '16px', opacity: 0.9 }}>
+              {gameOverCopy.detail}
+              {recordRank && (
+                <>
+                  <br />
+                  {recordRank === 1 ? '🏅 New record!' : `#${recordRank} in your ${modeInfo.name} records`}
+                </>
+              )}
             </p>
-            <button
-              onClick={handleRestart}
-              style={{
-                padding: '12px 24px',
-                borderRadius: '8px',
-                border: 'none',
-                background: 'rgba(255,255,255,0.2)',
-                color: '#fff',
-                cursor: 'pointer',
-                fontSize: '1rem',
-                fontWeight: '600',
-              }}
-            >
-              Play Again
-            </button>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', justifyContent: 'center' }}>
+              <button
+                onClick={() => handleRestart()}
+                autoFocus
+                style={{
+                  padding: '12px 24px',
+                  borderRadius: '8px',
+                  border: 'none',
+                  background: 'rgba(255,255,255,0.2)',
+                  color: '#fff',
+                  cursor: 'pointer',
+                  fontSize: '1rem',
+                  fontWeight: '600',
+                }}
+              >
+                Play Again
+              </button>
+              <button
+                onClick={() => handleRestart(engine.rng.seed)}
+                style={{
+                  padding: '12px 24px',
+                  borderRadius: '8px',
+                  border: 'none',
+                  background: 'rgba(255,255,255,0.2)',
+                  color: '#fff',
+                  cursor: 'pointer',
+                  fontSize: '1rem',
+                  fontWeight: '600',
+                }}
+              >
+                Replay Seed
+              </button>
+              <button
+                onClick={() => setShowReplay(true)}
+                style={{
+                  padding: '12px 24px',
+                  borderRadius: '8px',
+                  border: 'none',
+                  background: 'rgba(255,255,255,0.2)',
+                  color: '#fff',
+                  cursor: 'pointer',
+                  fontSize: '1rem',
+                  fontWeight: '600',
+                }}
+              >
+                Watch Replay
+              </button>
+              {engine.dailyDate && dailyHistory[engine.dailyDate] && (
+                <button
+                  onClick={() => copyShareText(buildShareText(dailyHistory[engine.dailyDate!])).then(setShareNotice)}
+                  style={{
+                    padding: '12px 24px',
+                    borderRadius: '8px',
+                    border: 'none',
+                    background: 'rgba(255,255,255,0.2)',
+                    color: '#fff',
+                    cursor: 'pointer',
+                    fontSize: '1rem',
+                    fontWeight: '600',
+                  }}
+                >
+                  📋 Share Daily
+                </button>
+              )}
+            </div>
+            {shareNotice && <p style={{ marginTop: '12px', opacity: 0.85 }}>{shareNotice}</p>}
           </div>
         )}
       </div>
 
       {showStats && (
-        <StatsModal stats={loadStats()} onClose={() => setShowStats(false)} theme={theme} />
+        <StatsModal
+          stats={loadStats(boardSize, ruleSet)}
+          history={loadGameHistory()}
+          unlocked={unlockedAchievements}
+          achievementContext={getAchievementContext()}
+          boardSize={boardSize}
+          gameMode={gameMode}
+          ruleSet={ruleSet}
+          records={modeRecords}
+          formatTime={formatTime}
+          onClose={() => setShowStats(false)}
+          theme={theme}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsModal
+          settings={settings}
+          onChange={updateSettings}
+          onNewTheme={() => openThemeEditor(true)}
+          onEditTheme={() => openThemeEditor(false)}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showGamepad && (
+        <GamepadModal
+          mapping={settings.gamepadMapping}
+          gamepadName={gamepadName}
+          theme={theme}
+          onChange={(gamepadMapping) => updateSettings({ gamepadMapping })}
+          onCaptureButton={(onButton) => input.captureButton(onButton)}
+          onClose={() => setShowGamepad(false)}
+        />
+      )}
+
+      {editingTheme && (
+        <ThemeEditor
+          key={editingTheme.theme.id}
+          initial={editingTheme.theme}
+          isNew={editingTheme.isNew}
+          onSave={handleSaveTheme}
+          onDelete={handleDeleteTheme}
+          onClose={() => setEditingTheme(null)}
+        />
+      )}
+
+      {showDaily && (
+        <DailyModal
+          history={dailyHistory}
+          today={getTodayKey()}
+          inProgress={engine.dailyDate === getTodayKey() && !engine.state.gameOver}
+          theme={theme}
+          onPlay={startDaily}
+          onClose={() => setShowDaily(false)}
+        />
+      )}
+
+      {toasts.length > 0 && <AchievementToast key={toasts[0].id} achievement={toasts[0]} theme={theme} />}
+
+      {winPrompt !== null && (
+        <WinModal
+          value={winPrompt}
+          score={engine.state.score}
+          moves={engine.state.moves}
+          time={formatTime(gameTime)}
+          theme={theme}
+          onKeepPlaying={() => setWinPrompt(null)}
+          onNewGame={() => handleRestart()}
+        />
+      )}
+
+      {showReplay && (
+        <ReplayViewer
+          recording={engine.recording}
+          theme={theme}
+          animate={!reducedMotion}
+          onClose={() => setShowReplay(false)}
+        />
       )}
 
       {showStartButton && (
         <div
+          role="dialog"
+          aria-modal="true"
+          aria-label="Start"
           style={{
             position: 'fixed',
             inset: 0,
@@ -2013,28 +4684,51 @@ function App() {
         >
           <div style={{ fontSize: '4rem' }}>🎮</div>
           <h2 style={{ fontSize: '2rem', margin: 0, color: '#fff' }}>ZipperMerge</h2>
-          <button
-            onClick={initializeAudio}
-            onTouchEnd={(e) => {
-              e.preventDefault();
-              initializeAudio();
-            }}
-            style={{
-              padding: '20px 60px',
-              fontSize: '1.3rem',
-              fontWeight: '600',
-              border: 'none',
-              borderRadius: '12px',
-              background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
-              color: '#fff',
-              cursor: 'pointer',
-              boxShadow: '0 8px 32px rgba(102,126,234,0.4)',
-              WebkitTapHighlightColor: 'transparent',
-              touchAction: 'manipulation',
-            }}
-          >
-            Tap to Start
-          </button>
+          {(savedGame
+            ? [
+                { label: 'Continue', onStart: initializeAudio },
+                {
+                  label: 'New Game',
+                  onStart: () => {
+                    handleRestart();
+                    initializeAudio();
+                  },
+                },
+              ]
+            : [{ label: 'Tap to Start', onStart: initializeAudio }]
+          ).map((option, i) => (
+            <button
+              key={option.label}
+              onClick={option.onStart}
+              autoFocus={i === 0}
+              onTouchEnd={(e) => {
+                e.preventDefault();
+                option.onStart();
+              }}
+              style={{
+                padding: '20px 60px',
+                minWidth: '260px',
+                fontSize: '1.3rem',
+                fontWeight: '600',
+                border: 'none',
+                borderRadius: '12px',
+                background:
+                  i === 0 ? 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)' : 'rgba(255,255,255,0.15)',
+                color: '#fff',
+                cursor: 'pointer',
+                boxShadow: i === 0 ? '0 8px 32px rgba(102,126,234,0.4)' : 'none',
+                WebkitTapHighlightColor: 'transparent',
+                touchAction: 'manipulation',
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+          {savedGame && (
+            <p style={{ fontSize: '0.9rem', opacity: 0.7, color: '#fff', margin: 0 }}>
+              Saved game: {savedGame.state.score} points · {savedGame.state.moves} moves · {formatTime(savedGame.gameTime)}
+            </p>
+          )}
           <p style={{ fontSize: '0.9rem', opacity: 0.7, color: '#fff' }}>
             {soundEnabled ? '🔊 Sound On' : '🔇 Sound Off'}
           </p>
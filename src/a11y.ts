@@ -0,0 +1,109 @@
+// ==================== ACCESSIBILITY ====================
+// Words for screen readers: what each board cell holds and what a move
+// did. Also keeps keyboard focus inside whichever dialog is open.
+import type { Direction, EndReason, GameEvent, GameState, Tile } from './engine';
+
+// Special tiles are named, since their value is always 0
+const describeTile = (tile: Tile | null | undefined): string =>
+  tile ? (tile.kind ?? tile.value.toString()) : 'empty';
+
+// Rows and columns are counted from 1, top left
+const describePosition = (row: number, col: number): string => `row ${row + 1}, column ${col + 1}`;
+
+export const describeCell = (tile: Tile | null, row: number, col: number): string =>
+  `${describePosition(row, col)}: ${describeTile(tile)}`;
+
+const END_REASONS: Record<EndReason, string> = {
+  noMoves: 'No moves left, game over',
+  timeUp: 'Time is up, game over',
+  outOfMoves: 'Out of moves, game over',
+  targetReached: 'Target reached',
+};
+
+// e.g. "Moved left, merged two 32s into 64, new 2 at row 1, column 4"
+export const describeMove = (previous: GameState, direction: Direction, events: GameEvent[]): string => {
+  const before = new Map(previous.tiles.map((tile) => [tile.id, tile]));
+  const parts = [`Moved ${direction}`];
+
+  events.forEach((event) => {
+    switch (event.type) {
+      case 'merged': {
+        const [a, b] = event.sourceIds.map((id) => before.get(id));
+        const sources =
+          a && b && !a.kind && !b.kind && a.value === b.value
+            ? `two ${a.value}s`
+            : `${describeTile(a)} and ${describeTile(b)}`;
+        parts.push(`merged ${sources} into ${event.value}`);
+        break;
+      }
+      case 'exploded':
+        parts.push(`a bomb cleared row ${event.row + 1}`);
+        break;
+      case 'spawned':
+        parts.push(`new ${describeTile(event.tile)} at ${describePosition(event.tile.row, event.tile.col)}`);
+        break;
+      case 'won':
+        parts.push(`you reached ${event.value}`);
+        break;
+      case 'gameOver':
+        parts.push(END_REASONS[event.reason]);
+        break;
+    }
+  });
+
+  return parts.join(', ');
+};
+
+// ==================== FOCUS ====================
+const FOCUSABLE = [
+  'button:not([disabled])',
+  'a[href]',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+// Open dialogs, innermost last. Only the innermost one handles keys.
+const openDialogs: HTMLElement[] = [];
+
+// Moves focus into the dialog and keeps Tab cycling inside it; Escape calls
+// onEscape. Returns a function that releases the trap and gives focus back
+// to whatever had it before.
+export const trapFocus = (dialog: HTMLElement, onEscape: () => void): (() => void) => {
+  const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+  const focusable = () => [...dialog.querySelectorAll<HTMLElement>(FOCUSABLE)];
+  openDialogs.push(dialog);
+  (focusable()[0] ?? dialog).focus();
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (openDialogs[openDialogs.length - 1] !== dialog) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onEscape();
+      return;
+    }
+    if (e.key !== 'Tab') return;
+
+    const items = focusable();
+    const inside = dialog.contains(document.activeElement);
+    const first = items[0];
+    const last = items[items.length - 1];
+    if (!first) {
+      e.preventDefault();
+    } else if (e.shiftKey && (!inside || document.activeElement === first)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && (!inside || document.activeElement === last)) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  document.addEventListener('keydown', handleKeyDown);
+  return () => {
+    document.removeEventListener('keydown', handleKeyDown);
+    openDialogs.splice(openDialogs.indexOf(dialog), 1);
+    opener?.focus();
+  };
+};
@@ -0,0 +1,196 @@
+// ==================== ACHIEVEMENTS ====================
+// Every achievement is an entry in ACHIEVEMENTS with a progress check against
+// a snapshot of the game in progress and the player's stats. It unlocks once
+// progress reaches its target; unlocks are stored with their timestamp.
+import { BUILTIN_THEME_ORDER } from './themes';
+import type { Theme } from './themes';
+
+// Tile values are given as their classic equivalent, so 1024 means the same
+// rank under every rule set
+export interface AchievementContext {
+  game: {
+    score: number;
+    highestTile: number;
+    moves: number;
+    bestCombo: number;
+    undosUsed: number;
+    won: boolean;
+  };
+  // Totals across every board size and rule set
+  stats: {
+    gamesPlayed: number;
+    gamesWon: number;
+    totalScore: number;
+    bestCombo: number;
+  };
+  themesPlayed: Theme[];
+}
+
+export interface Progress {
+  current: number;
+  target: number;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  // Game achievements are judged on the game in progress; career ones
+  // build up over many games
+  scope: 'game' | 'career';
+  progress: (ctx: AchievementContext) => Progress;
+}
+
+// Date each achievement was unlocked, keyed by id
+export type UnlockedAchievements = Record<string, string>;
+
+const done = (condition: boolean): Progress => ({ current: condition ? 1 : 0, target: 1 });
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'firstSteps',
+    name: 'First Steps',
+    icon: '👣',
+    description: 'Play your first game',
+    scope: 'career',
+    progress: ({ stats }) => ({ current: stats.gamesPlayed, target: 1 }),
+  },
+  {
+    id: 'winner',
+    name: 'Winner!',
+    icon: '🏆',
+    description: 'Reach the winning tile',
+    scope: 'career',
+    progress: ({ game, stats }) => done(game.won || stats.gamesWon > 0),
+  },
+  {
+    id: 'cleanWin',
+    name: 'No Take-Backs',
+    icon: '🧼',
+    description: 'Win without using undo',
+    scope: 'game',
+    progress: ({ game }) => done(game.won && game.undosUsed === 0),
+  },
+  {
+    id: 'speedRun',
+    name: 'Speed Run',
+    icon: '⚡',
+    description: 'Reach 1024 in under 300 moves',
+    scope: 'game',
+    // Counted in doublings so the bar fills evenly on the way to 1024
+    progress: ({ game }) => ({
+      current: game.moves < 300 ? Math.log2(Math.max(game.highestTile, 1)) : 0,
+      target: Math.log2(1024),
+    }),
+  },
+  {
+    id: 'comboMaster',
+    name: 'Combo Master',
+    icon: '🔗',
+    description: 'Get a 5x combo',
+    scope: 'career',
+    progress: ({ game, stats }) => ({ current: Math.max(game.bestCombo, stats.bestCombo), target: 5 }),
+  },
+  {
+    id: 'comboLegend',
+    name: 'Combo Legend',
+    icon: '⛓️',
+    description: 'Get a 6x combo',
+    scope: 'career',
+    progress: ({ game, stats }) => ({ current: Math.max(game.bestCombo, stats.bestCombo), target: 6 }),
+  },
+  {
+    id: 'marathon',
+    name: 'Marathon',
+    icon: '🏃',
+    description: 'Make 1,000 moves in one game',
+    scope: 'game',
+    progress: ({ game }) => ({ current: game.moves, target: 1000 }),
+  },
+  {
+    id: 'highRoller',
+    name: 'High Roller',
+    icon: '💰',
+    description: 'Score over 10,000 points in total',
+    scope: 'career',
+    progress: ({ stats }) => ({ current: stats.totalScore, target: 10000 }),
+  },
+  {
+    id: 'dedicated',
+    name: 'Dedicated',
+    icon: '📅',
+    description: 'Play 10 games',
+    scope: 'career',
+    progress: ({ stats }) => ({ current: stats.gamesPlayed, target: 10 }),
+  },
+  {
+    id: 'themeTourist',
+    name: 'Theme Tourist',
+    icon: '🎨',
+    description: 'Play a move in every built-in theme',
+    scope: 'career',
+    progress: ({ themesPlayed }) => ({
+      current: BUILTIN_THEME_ORDER.filter((theme) => themesPlayed.includes(theme)).length,
+      target: BUILTIN_THEME_ORDER.length,
+    }),
+  },
+];
+
+export const isUnlocked = (achievement: Achievement, ctx: AchievementContext): boolean => {
+  const { current, target } = achievement.progress(ctx);
+  return current >= target;
+};
+
+// Achievements that are newly met, in registry order
+export const findNewUnlocks = (ctx: AchievementContext, unlocked: UnlockedAchievements): Achievement[] =>
+  ACHIEVEMENTS.filter((achievement) => !unlocked[achievement.id] && isUnlocked(achievement, ctx));
+
+// ==================== STORAGE ====================
+const UNLOCKED_KEY = 'zipperMergeAchievements';
+const THEMES_PLAYED_KEY = 'zipperMergeThemesPlayed';
+
+export const loadUnlockedAchievements = (): UnlockedAchievements => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(UNLOCKED_KEY) || '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+// A full or blocked localStorage keeps the unlocks for this session only
+export const saveUnlocks = (achievements: Achievement[]): UnlockedAchievements => {
+  const date = new Date().toISOString();
+  const updated = { ...loadUnlockedAchievements() };
+  achievements.forEach((achievement) => {
+    updated[achievement.id] = updated[achievement.id] ?? date;
+  });
+  try {
+    localStorage.setItem(UNLOCKED_KEY, JSON.stringify(updated));
+  } catch (e) {
+    // Quota exceeded or storage disabled; the stored unlocks stay as they were
+  }
+  return updated;
+};
+
+export const loadThemesPlayed = (): Theme[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(THEMES_PLAYED_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const markThemePlayed = (theme: Theme): Theme[] => {
+  const played = loadThemesPlayed();
+  if (played.includes(theme)) return played;
+  const updated = [...played, theme];
+  try {
+    localStorage.setItem(THEMES_PLAYED_KEY, JSON.stringify(updated));
+  } catch (e) {
+    // Same as saveUnlocks
+  }
+  return updated;
+};
@@ -0,0 +1,36 @@
+// ==================== MOVE ANIMATION ====================
+// A move plays out in two steps. First every tile that was on the board
+// slides from its old cell to the cell it ends up in, with both halves of a
+// merge sliding onto the same cell. Then the board settles on the new state:
+// merged tiles pop, cleared tiles vanish and the spawn appears.
+import type { GameEvent, GameState, Position, Tile } from './engine';
+
+// How long the slide lasts; the tile transition uses the same duration
+export const SLIDE_MS = 150;
+
+export interface TileMotion {
+  tile: Tile;
+  from: Position;
+  to: Position;
+}
+
+// Where each tile of the previous board goes. Tiles that merge or explode
+// travel to the cell where that happened; tiles that didn't move stay put.
+export const planSlide = (previous: GameState, events: GameEvent[]): TileMotion[] => {
+  const destinations = new Map<string, Position>();
+  events.forEach((event) => {
+    if (event.type === 'moved') destinations.set(event.tileId, event.to);
+    if (event.type === 'merged') event.sourceIds.forEach((id) => destinations.set(id, event.to));
+    if (event.type === 'exploded') destinations.set(event.sourceIds[0], event.to);
+  });
+
+  return previous.tiles.map((tile) => {
+    const from = { row: tile.row, col: tile.col };
+    return { tile, from, to: destinations.get(tile.id) ?? from };
+  });
+};
+
+// The board mid-slide: every old tile drawn at its destination, so the tile
+// transition carries it there from where it was last drawn
+export const toSlideFrame = (motions: TileMotion[]): Tile[] =>
+  motions.map(({ tile, to }) => ({ ...tile, row: to.row, col: to.col, isNew: false, justMerged: false }));
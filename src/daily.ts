@@ -0,0 +1,93 @@
+// ==================== DAILY CHALLENGE ====================
+// Everyone gets the same 4x4 spawn sequence each day, seeded from the local
+// date. One scored attempt per day; results are kept as a calendar history.
+import { buildGrid, getHighestTile } from './engine';
+import type { GameState } from './engine';
+
+export const DAILY_BOARD_SIZE = 4;
+
+export interface DailyResult {
+  date: string;
+  score: number;
+  highestTile: number;
+  moves: number;
+  // Final board, row by row, 0 for empty cells
+  board: number[];
+}
+
+// Keyed by date, YYYY-MM-DD
+export type DailyHistory = Record<string, DailyResult>;
+
+const DAILY_KEY = 'zipperMergeDaily';
+
+export const toDateKey = (date: Date): string =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map((n) => n.toString().padStart(2, '0')).join('-');
+
+export const getTodayKey = (): string => toDateKey(new Date());
+
+// FNV-1a over the date, so the seed only depends on the day
+export const getDailySeed = (dateKey: string): number => {
+  let hash = 0x811c9dc5;
+  for (const char of `zippermerge-daily-${dateKey}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createDailyResult = (dateKey: string, state: GameState): DailyResult => ({
+  date: dateKey,
+  score: state.score,
+  highestTile: getHighestTile(state),
+  moves: state.moves,
+  board: buildGrid(state.tiles, DAILY_BOARD_SIZE).flatMap((row) => row.map((t) => (t ? t.value : 0))),
+});
+
+// ==================== STORAGE ====================
+export const loadDailyHistory = (): DailyHistory => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DAILY_KEY) || '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+// The first result for a day is the scored one; later calls are ignored. A
+// full or blocked localStorage keeps the result for this session only.
+export const saveDailyResult = (result: DailyResult): DailyHistory => {
+  const history = loadDailyHistory();
+  if (history[result.date]) return history;
+  const updated = { ...history, [result.date]: result };
+  try {
+    localStorage.setItem(DAILY_KEY, JSON.stringify(updated));
+  } catch (e) {
+    // Quota exceeded or storage disabled; the stored results stay as they were
+  }
+  return updated;
+};
+
+// ==================== SHARING ====================
+// Coarse color per tile so the grid reads at a glance without giving away
+// exact values
+const tileEmoji = (value: number): string => {
+  if (value === 0) return '⬛';
+  if (value <= 4) return '⬜';
+  if (value <= 16) return '🟨';
+  if (value <= 64) return '🟧';
+  if (value <= 256) return '🟥';
+  if (value <= 1024) return '🟪';
+  return '🟦';
+};
+
+export const buildShareText = (result: DailyResult): string => {
+  const rows: string[] = [];
+  for (let i = 0; i < result.board.length; i += DAILY_BOARD_SIZE) {
+    rows.push(result.board.slice(i, i + DAILY_BOARD_SIZE).map(tileEmoji).join(''));
+  }
+  return [
+    `ZipperMerge Daily ${result.date}`,
+    `Score ${result.score} · Best tile ${result.highestTile} · ${result.moves} moves`,
+    ...rows,
+  ].join('\n');
+};
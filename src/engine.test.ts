@@ -0,0 +1,334 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CLASSIC_OPTIONS,
+  checkTimeLimit,
+  createEmptyState,
+  createGame,
+  move,
+  replayMove,
+  slide,
+  spawnTile,
+} from './engine';
+import type { ChaosRates, Direction, GameOptions, GameState, SpawnResult, Tile, TileKind } from './engine';
+import { createRng, toRandomSource } from './rng';
+
+// A number, 0 for an empty cell, or a special tile
+type Cell = number | TileKind;
+
+// Builds a state from rows of cells
+const fromRows = (rows: Cell[][]): GameState => {
+  const tiles: Tile[] = [];
+  rows.forEach((cells, row) =>
+    cells.forEach((cell, col) => {
+      const id = `tile-${tiles.length}`;
+      if (typeof cell === 'string') tiles.push({ id, value: 0, kind: cell, row, col });
+      else if (cell) tiles.push({ id, value: cell, row, col });
+    })
+  );
+  return { ...createEmptyState(), tiles, nextId: tiles.length };
+};
+
+const toRows = (state: GameState, size: number): Cell[][] => {
+  const rows = Array.from({ length: size }, () => Array<Cell>(size).fill(0));
+  state.tiles.forEach((tile) => {
+    rows[tile.row][tile.col] = tile.kind ?? tile.value;
+  });
+  return rows;
+};
+
+const DIRECTIONS: Direction[] = ['up', 'left', 'down', 'right'];
+const CHAOS: ChaosRates = { stone: 0.05, wildcard: 0.05, bomb: 0.05 };
+
+// Plays a seeded game through a fixed cycle of directions, returning every
+// move's result
+const playSeeded = (seed: number, moves: number, options: GameOptions = CLASSIC_OPTIONS) => {
+  const random = toRandomSource(createRng(seed));
+  const opening = createGame(4, random, options.ruleSet);
+  const results = [];
+  let state = opening;
+  for (let i = 0; i < moves && !state.gameOver; i++) {
+    const result = move(state, DIRECTIONS[i % 4], 4, random, options);
+    results.push({ direction: DIRECTIONS[i % 4], ...result });
+    state = result.state;
+  }
+  return { opening, results, state };
+};
+
+describe('slide', () => {
+  const start = [
+    [0, 0, 0, 0],
+    [0, 2, 0, 0],
+    [0, 0, 0, 0],
+    [0, 0, 0, 0],
+  ];
+
+  it.each<[Direction, number[][]]>([
+    ['up', [[0, 2, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]]],
+    ['down', [[0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [0, 2, 0, 0]]],
+    ['left', [[0, 0, 0, 0], [2, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]]],
+    ['right', [[0, 0, 0, 0], [0, 0, 0, 2], [0, 0, 0, 0], [0, 0, 0, 0]]],
+  ])('moves a tile %s to the edge', (direction, expected) => {
+    const result = slide(fromRows(start), direction, 4);
+    expect(result.moved).toBe(true);
+    expect(toRows(result.state, 4)).toEqual(expected);
+    expect(result.state.moves).toBe(1);
+  });
+
+  it('reports no move when nothing can slide', () => {
+    const previous = fromRows([[2, 4], [0, 0]]);
+    const result = slide(previous, 'up', 2);
+    expect(result.moved).toBe(false);
+    expect(result.state).toBe(previous);
+    expect(result.events).toEqual([]);
+  });
+
+  it('merges equal tiles and scores the new value', () => {
+    const result = slide(fromRows([[0, 2, 0, 2]]), 'left', 4);
+    expect(toRows(result.state, 4)[0]).toEqual([4, 0, 0, 0]);
+    expect(result.state.score).toBe(4);
+    expect(result.events.filter((e) => e.type === 'merged')).toHaveLength(1);
+  });
+
+  it('merges a cell only once per move', () => {
+    expect(toRows(slide(fromRows([[2, 2, 4, 0]]), 'left', 4).state, 4)[0]).toEqual([4, 4, 0, 0]);
+    expect(toRows(slide(fromRows([[2, 2, 2, 2]]), 'left', 4).state, 4)[0]).toEqual([4, 4, 0, 0]);
+    expect(toRows(slide(fromRows([[2, 2, 2, 2]]), 'right', 4).state, 4)[0]).toEqual([0, 0, 4, 4]);
+  });
+
+  it('merges the tiles nearest the wall first', () => {
+    expect(toRows(slide(fromRows([[2, 2, 2, 0]]), 'left', 4).state, 4)[0]).toEqual([4, 2, 0, 0]);
+    expect(toRows(slide(fromRows([[2, 2, 2, 0]]), 'right', 4).state, 4)[0]).toEqual([0, 0, 2, 4]);
+  });
+});
+
+describe('spawnTile', () => {
+  it('only places tiles on empty cells', () => {
+    const random = toRandomSource(createRng(12345));
+    let state = createEmptyState();
+    for (let i = 0; i < 16; i++) {
+      const { state: next, tile } = spawnTile(state, 4, random);
+      expect(tile).not.toBeNull();
+      expect(state.tiles.some((t) => t.row === tile!.row && t.col === tile!.col)).toBe(false);
+      state = next;
+    }
+    expect(new Set(state.tiles.map((t) => `${t.row},${t.col}`)).size).toBe(16);
+  });
+
+  it('places nothing on a full board', () => {
+    const full = fromRows([[2, 4], [8, 16]]);
+    const { state, tile } = spawnTile(full, 2, () => 0.5);
+    expect(tile).toBeNull();
+    expect(state).toBe(full);
+  });
+
+  it('never stacks tiles over a long game', () => {
+    const random = toRandomSource(createRng(42));
+    const directions: Direction[] = ['up', 'left', 'down', 'right'];
+    let state = spawnTile(createEmptyState(), 4, random).state;
+    for (let i = 0; i < 500 && !state.gameOver; i++) {
+      state = move(state, directions[i % 4], 4, random).state;
+      expect(new Set(state.tiles.map((t) => `${t.row},${t.col}`)).size).toBe(state.tiles.length);
+    }
+  });
+});
+
+describe('move', () => {
+  it('reports a win when a merge reaches 2048', () => {
+    const result = move(fromRows([[1024, 1024, 0, 0]]), 'left', 4, () => 0);
+    expect(result.state.won).toBe(true);
+    expect(result.events).toContainEqual({ type: 'won', value: 2048 });
+  });
+
+  it('reports a win only once', () => {
+    const won = { ...fromRows([[1024, 1024, 2048, 0]]), won: true };
+    const result = move(won, 'left', 4, () => 0);
+    expect(result.events.some((e) => e.type === 'won')).toBe(false);
+  });
+
+  it('ends the game when the board locks up', () => {
+    // The 8 slides right and a 4 fills the gap, leaving no merges
+    const result = move(fromRows([[2, 4], [8, 0]]), 'right', 2, () => 0.95);
+    expect(toRows(result.state, 2)).toEqual([[2, 4], [4, 8]]);
+    expect(result.state.gameOver).toBe(true);
+    expect(result.state.endReason).toBe('noMoves');
+    expect(result.events).toContainEqual({ type: 'gameOver', reason: 'noMoves' });
+  });
+
+  it('keeps playing while a merge is left', () => {
+    const result = move(fromRows([[2, 4], [8, 0]]), 'right', 2, () => 0);
+    expect(toRows(result.state, 2)).toEqual([[2, 4], [2, 8]]);
+    expect(result.state.gameOver).toBe(false);
+    expect(result.events.some((e) => e.type === 'gameOver')).toBe(false);
+  });
+});
+
+describe('seeded games', () => {
+  it('play out the same from the same seed', () => {
+    expect(playSeeded(2024, 200).state).toEqual(playSeeded(2024, 200).state);
+  });
+
+  it('differ between seeds', () => {
+    expect(playSeeded(1, 20).state.tiles).not.toEqual(playSeeded(2, 20).state.tiles);
+  });
+
+  it('resume exactly from a copied generator', () => {
+    const rng = createRng(99);
+    const random = toRandomSource(rng);
+    const state = createGame(4, random);
+    const copy = toRandomSource({ ...rng });
+    expect(move(state, 'left', 4, random)).toEqual(move(state, 'left', 4, copy));
+  });
+});
+
+describe('replayMove', () => {
+  // The spawn each move placed, as a recording stores it
+  const spawnOf = (result: ReturnType<typeof move>): SpawnResult | null => {
+    const spawned = result.events.find((e) => e.type === 'spawned');
+    if (!spawned || spawned.type !== 'spawned') return null;
+    const { row, col, value, kind } = spawned.tile;
+    return kind ? { row, col, value, kind } : { row, col, value };
+  };
+
+  it.each<[string, GameOptions]>([
+    ['classic', CLASSIC_OPTIONS],
+    ['chaos on Fibonacci rules', { ...CLASSIC_OPTIONS, chaos: CHAOS, ruleSet: 'fibonacci' }],
+  ])('rebuilds a %s game from its recorded spawns', (_, options) => {
+    const { opening, results, state } = playSeeded(7, 150, options);
+    let replayed = opening;
+    results.forEach((result) => {
+      const next = replayMove(replayed, result.direction, 4, spawnOf(result), options);
+      expect(next).toEqual({ state: result.state, moved: result.moved, events: result.events });
+      replayed = next.state;
+    });
+    expect(replayed).toEqual(state);
+  });
+});
+
+describe('chaos tiles', () => {
+  it('treat stones as walls that never move', () => {
+    const result = slide(fromRows([[0, 'stone', 0, 2]]), 'left', 4);
+    expect(toRows(result.state, 4)[0]).toEqual([0, 'stone', 2, 0]);
+  });
+
+  it('never merge stones', () => {
+    expect(slide(fromRows([['stone', 'stone']]), 'left', 2).moved).toBe(false);
+    expect(slide(fromRows([[2, 'stone']]), 'right', 2).moved).toBe(false);
+  });
+
+  it('merge a wildcard with any number into the next tile up', () => {
+    const result = slide(fromRows([['wildcard', 8, 0, 0]]), 'left', 4);
+    expect(toRows(result.state, 4)[0]).toEqual([16, 0, 0, 0]);
+    expect(result.state.score).toBe(16);
+    expect(result.state.tiles[0].kind).toBeUndefined();
+  });
+
+  it('never merge two of the same special', () => {
+    expect(slide(fromRows([['wildcard', 'wildcard']]), 'left', 2).moved).toBe(false);
+    expect(slide(fromRows([['bomb', 'bomb']]), 'left', 2).moved).toBe(false);
+  });
+
+  it('clear the row a bomb lands in', () => {
+    const result = slide(
+      fromRows([
+        [4, 8, 0, 'bomb'],
+        [2, 0, 0, 0],
+      ]),
+      'left',
+      4
+    );
+    expect(toRows(result.state, 4).slice(0, 2)).toEqual([
+      [0, 0, 0, 0],
+      [2, 0, 0, 0],
+    ]);
+    expect(result.state.score).toBe(0);
+    expect(result.events).toContainEqual({
+      type: 'exploded',
+      row: 0,
+      tileIds: ['tile-0', 'tile-1', 'tile-2'],
+      sourceIds: ['tile-2', 'tile-1'],
+      to: { row: 0, col: 1 },
+    });
+  });
+
+  it('roll a special before the value only when chaos is on', () => {
+    const rolls = [0, 0.01, 0.5];
+    const spawned = spawnTile(createEmptyState(), 4, () => rolls.shift()!, CHAOS).tile;
+    expect(spawned).toMatchObject({ row: 0, col: 0, value: 0, kind: 'stone' });
+    expect(rolls).toEqual([0.5]);
+  });
+});
+
+describe('rule sets', () => {
+  it('merge Fibonacci neighbours into the next number', () => {
+    expect(toRows(slide(fromRows([[1, 1, 2, 0]]), 'left', 4, 'fibonacci').state, 4)[0]).toEqual([2, 2, 0, 0]);
+    expect(toRows(slide(fromRows([[3, 5, 0, 0]]), 'left', 4, 'fibonacci').state, 4)[0]).toEqual([8, 0, 0, 0]);
+    expect(slide(fromRows([[2, 5]]), 'left', 2, 'fibonacci').moved).toBe(false);
+    expect(slide(fromRows([[2, 2]]), 'left', 2, 'fibonacci').moved).toBe(false);
+  });
+
+  it('merge 1 and 2 into 3 under threes, then only equal tiles', () => {
+    expect(toRows(slide(fromRows([[2, 1, 3, 3]]), 'left', 4, 'threes').state, 4)[0]).toEqual([3, 6, 0, 0]);
+    expect(slide(fromRows([[1, 1]]), 'left', 2, 'threes').moved).toBe(false);
+    expect(slide(fromRows([[2, 2]]), 'left', 2, 'threes').moved).toBe(false);
+  });
+
+  it.each<['fibonacci' | 'threes', number, number]>([
+    ['fibonacci', 987, 1597],
+    ['threes', 1536, 1536],
+  ])('wins %s on its own winning tile', (ruleSet, a, b) => {
+    const result = slide(fromRows([[a, b]]), 'left', 2, ruleSet);
+    expect(result.state.won).toBe(true);
+  });
+
+  it('spawns only the rule set\'s opening tiles', () => {
+    const random = toRandomSource(createRng(5));
+    const tiles = Array.from({ length: 50 }, () => createGame(4, random, 'threes').tiles).flat();
+    expect([...new Set(tiles.map((t) => t.value))].sort()).toEqual([1, 2, 3]);
+  });
+});
+
+describe('mode end reasons', () => {
+  const timeAttack = { kind: 'timeAttack', seconds: 180 } as const;
+
+  it('ends a time attack once the clock runs out', () => {
+    const state = fromRows([[2, 0]]);
+    expect(checkTimeLimit(state, timeAttack, 179).state).toBe(state);
+    const result = checkTimeLimit(state, timeAttack, 180);
+    expect(result.state).toMatchObject({ gameOver: true, endReason: 'timeUp' });
+    expect(result.events).toEqual([{ type: 'gameOver', reason: 'timeUp' }]);
+    expect(state.gameOver).toBe(false);
+  });
+
+  it('leaves other modes and finished games to the board', () => {
+    const state = fromRows([[2, 0]]);
+    expect(checkTimeLimit(state, CLASSIC_OPTIONS.mode, 10000).events).toEqual([]);
+    const over = { ...state, gameOver: true, endReason: 'noMoves' as const };
+    expect(checkTimeLimit(over, timeAttack, 10000).state).toBe(over);
+  });
+
+  it('ends a move budget game on its last move', () => {
+    const options = { ...CLASSIC_OPTIONS, mode: { kind: 'moveBudget', moves: 150 } as const };
+    const early = move({ ...fromRows([[2, 0, 0, 0]]), moves: 148 }, 'right', 4, () => 0, options);
+    expect(early.state.gameOver).toBe(false);
+    const last = move(early.state, 'left', 4, () => 0, options);
+    expect(last.state).toMatchObject({ moves: 150, gameOver: true, endReason: 'outOfMoves' });
+  });
+
+  it('ends a move budget game early when the board locks up', () => {
+    const options = { ...CLASSIC_OPTIONS, mode: { kind: 'moveBudget', moves: 150 } as const };
+    const result = move({ ...fromRows([[2, 4], [8, 0]]), moves: 149 }, 'right', 2, () => 0.95, options);
+    expect(result.state.endReason).toBe('noMoves');
+  });
+
+  it('ends a target race on reaching the winning tile', () => {
+    const options = { ...CLASSIC_OPTIONS, mode: { kind: 'targetRace' } as const };
+    const result = move(fromRows([[1024, 1024, 0, 0]]), 'left', 4, () => 0, options);
+    expect(result.state).toMatchObject({ won: true, gameOver: true, endReason: 'targetReached' });
+    expect(result.events).toContainEqual({ type: 'gameOver', reason: 'targetReached' });
+  });
+
+  it('keeps a classic game going past the winning tile', () => {
+    const result = move(fromRows([[1024, 1024, 0, 0]]), 'left', 4, () => 0);
+    expect(result.state.gameOver).toBe(false);
+  });
+});
@@ -0,0 +1,491 @@
+// ==================== GAME ENGINE ====================
+// Pure game rules: no React, storage or audio. Every function takes a state
+// and returns a new one, reporting what happened as a list of events.
+import { RULE_SETS, pickSpawnValue } from './rules';
+import type { RuleSetId } from './rules';
+
+// ==================== TYPES ====================
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+export interface Position {
+  row: number;
+  col: number;
+}
+
+// Chaos tiles. Stones never move or merge, wildcards merge with any number
+// and bombs clear their row when merged. Special tiles have a value of 0.
+export type TileKind = 'stone' | 'wildcard' | 'bomb';
+
+export interface Tile {
+  id: string;
+  value: number;
+  row: number;
+  col: number;
+  // Omitted for ordinary numbered tiles
+  kind?: TileKind;
+  isNew?: boolean;
+  justMerged?: boolean;
+}
+
+// Chance of each special tile per spawn, 0-1
+export interface ChaosRates {
+  stone: number;
+  wildcard: number;
+  bomb: number;
+}
+
+// Rules that can end a game before the board locks up
+export type GameMode =
+  | { kind: 'classic' }
+  | { kind: 'timeAttack'; seconds: number }
+  | { kind: 'moveBudget'; moves: number }
+  | { kind: 'targetRace' };
+
+export type EndReason = 'noMoves' | 'timeUp' | 'outOfMoves' | 'targetReached';
+
+export interface GameState {
+  tiles: Tile[];
+  score: number;
+  moves: number;
+  // Merges in the last move, and the most in any single move this game
+  comboCount: number;
+  bestCombo: number;
+  gameOver: boolean;
+  won: boolean;
+  nextId: number;
+  // Why the game ended, once gameOver is set
+  endReason?: EndReason;
+}
+
+export type GameEvent =
+  | { type: 'moved'; tileId: string; from: Position; to: Position }
+  | { type: 'merged'; tileId: string; sourceIds: [string, string]; value: number; from: Position; to: Position }
+  | { type: 'spawned'; tile: Tile }
+  // sourceIds are the tile that slid in, then the one it hit
+  | { type: 'exploded'; row: number; tileIds: string[]; sourceIds: [string, string]; to: Position }
+  | { type: 'won'; value: number }
+  | { type: 'milestone'; value: number; level: number; at: Position }
+  | { type: 'gameOver'; reason: EndReason };
+
+// A spawn as it landed on the board, enough to place it again on replay
+export interface SpawnResult {
+  row: number;
+  col: number;
+  value: number;
+  kind?: TileKind;
+}
+
+export interface MoveResult {
+  state: GameState;
+  moved: boolean;
+  events: GameEvent[];
+}
+
+// Source of uniform numbers in [0, 1), injectable so spawns can be controlled
+export type RandomSource = () => number;
+
+export const CLASSIC_MODE: GameMode = { kind: 'classic' };
+
+// Everything besides board size that decides how a game plays
+export interface GameOptions {
+  mode: GameMode;
+  chaos: ChaosRates | null;
+  ruleSet: RuleSetId;
+}
+
+export const CLASSIC_OPTIONS: GameOptions = { mode: CLASSIC_MODE, chaos: null, ruleSet: 'classic' };
+
+// Tiles past the winning one that get their own celebration, e.g. 4096, 8192
+// and 16384 under classic rules
+export const MILESTONE_LEVELS = 3;
+
+// ==================== STATE ====================
+export const createEmptyState = (): GameState => ({
+  tiles: [],
+  score: 0,
+  moves: 0,
+  comboCount: 0,
+  bestCombo: 0,
+  gameOver: false,
+  won: false,
+  nextId: 0,
+});
+
+const cloneState = (state: GameState): GameState => ({
+  ...state,
+  tiles: state.tiles.map((t) => ({ ...t })),
+});
+
+export const createGame = (
+  size = 4,
+  random: RandomSource = Math.random,
+  ruleSet: RuleSetId = 'classic'
+): GameState => {
+  let state = createEmptyState();
+  state = spawnTile(state, size, random, null, ruleSet).state;
+  state = spawnTile(state, size, random, null, ruleSet).state;
+  return state;
+};
+
+// ==================== SPAWNING ====================
+export const getEmptyCells = (state: GameState, size: number): Position[] => {
+  const emptyCells: Position[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (!state.tiles.some((t) => t.row === row && t.col === col)) {
+        emptyCells.push({ row, col });
+      }
+    }
+  }
+  return emptyCells;
+};
+
+// Without chaos this draws no random number, so the random sequence (and
+// therefore every seed) is the same as a classic game
+const rollSpecial = (random: RandomSource, chaos: ChaosRates | null): TileKind | null => {
+  if (!chaos) return null;
+  let roll = random();
+  for (const kind of ['stone', 'wildcard', 'bomb'] as const) {
+    if (roll < chaos[kind]) return kind;
+    roll -= chaos[kind];
+  }
+  return null;
+};
+
+export const spawnTile = (
+  state: GameState,
+  size: number,
+  random: RandomSource = Math.random,
+  chaos: ChaosRates | null = null,
+  ruleSet: RuleSetId = 'classic'
+): { state: GameState; tile: Tile | null } => {
+  const emptyCells = getEmptyCells(state, size);
+  if (emptyCells.length === 0) return { state, tile: null };
+
+  // The draw order is part of every recorded seed: the cell, then the special
+  // roll (chaos only), then the value
+  const cell = emptyCells[Math.floor(random() * emptyCells.length)];
+  const kind = rollSpecial(random, chaos);
+  if (kind) return placeTile(state, { ...cell, value: 0, kind });
+
+  const value = pickSpawnValue(RULE_SETS[ruleSet], random());
+  return placeTile(state, { ...cell, value });
+};
+
+export const placeTile = (state: GameState, spawn: SpawnResult): { state: GameState; tile: Tile } => {
+  const tile: Tile = {
+    id: `tile-${state.nextId}`,
+    value: spawn.value,
+    row: spawn.row,
+    col: spawn.col,
+    isNew: true,
+  };
+  if (spawn.kind) tile.kind = spawn.kind;
+
+  return {
+    state: { ...state, tiles: [...state.tiles, tile], nextId: state.nextId + 1 },
+    tile,
+  };
+};
+
+// ==================== GRID HELPERS ====================
+export const buildGrid = (tiles: Tile[], size: number): (Tile | null)[][] => {
+  const grid: (Tile | null)[][] = Array(size)
+    .fill(null)
+    .map(() => Array(size).fill(null));
+  tiles.forEach((tile) => {
+    grid[tile.row][tile.col] = tile;
+  });
+  return grid;
+};
+
+export const getVector = (direction: Direction): Position => {
+  return {
+    up: { row: -1, col: 0 },
+    down: { row: 1, col: 0 },
+    left: { row: 0, col: -1 },
+    right: { row: 0, col: 1 },
+  }[direction];
+};
+
+export const getTraversals = (direction: Direction, size: number) => {
+  const rows = Array.from({ length: size }, (_, i) => i);
+  const cols = Array.from({ length: size }, (_, i) => i);
+
+  if (direction === 'down') rows.reverse();
+  if (direction === 'right') cols.reverse();
+
+  return { rows, cols };
+};
+
+// Any occupied cell stops a slide, so stones act as walls
+export const findFarthestPosition = (
+  position: Position,
+  vector: Position,
+  grid: (Tile | null)[][],
+  size: number
+): { farthest: Position; next: Position | null } => {
+  let previous = position;
+
+  while (true) {
+    const next = {
+      row: previous.row + vector.row,
+      col: previous.col + vector.col,
+    };
+
+    if (next.row < 0 || next.row >= size || next.col < 0 || next.col >= size) {
+      break;
+    }
+
+    if (grid[next.row][next.col] !== null) {
+      return { farthest: previous, next: next };
+    }
+
+    previous = next;
+  }
+
+  return { farthest: previous, next: null };
+};
+
+const moveTile = (tile: Tile, position: Position, grid: (Tile | null)[][]) => {
+  grid[tile.row][tile.col] = null;
+  tile.row = position.row;
+  tile.col = position.col;
+  grid[position.row][position.col] = tile;
+};
+
+// ==================== MERGE RULES ====================
+// Numbers merge as the rule set says. A wildcard or bomb merges with any
+// number, and with each other; two of the same special never merge.
+export const canMerge = (a: Tile, b: Tile, ruleSet: RuleSetId = 'classic'): boolean => {
+  if (a.kind === 'stone' || b.kind === 'stone') return false;
+  if (!a.kind && !b.kind) return RULE_SETS[ruleSet].canMerge(a.value, b.value);
+  return a.kind !== b.kind;
+};
+
+// ==================== MOVES ====================
+// Slides and merges tiles without spawning. Counts the move if anything moved.
+export const slide = (
+  previous: GameState,
+  direction: Direction,
+  size: number,
+  ruleSet: RuleSetId = 'classic'
+): MoveResult => {
+  const rules = RULE_SETS[ruleSet];
+  const state = cloneState(previous);
+  state.tiles.forEach((t) => {
+    t.justMerged = false;
+    t.isNew = false;
+  });
+
+  const events: GameEvent[] = [];
+  const vector = getVector(direction);
+  const traversals = getTraversals(direction, size);
+  let moved = false;
+  const grid = buildGrid(state.tiles, size);
+  // A cell that already received a merge this move cannot merge again,
+  // so [2, 2, 4] slides left to [4, 4] rather than [8]
+  const mergedPositions = new Set<string>();
+  let highest = getHighestTile(previous);
+
+  state.comboCount = 0;
+
+  for (const row of traversals.rows) {
+    for (const col of traversals.cols) {
+      const tile = grid[row][col];
+      if (tile === null || tile.kind === 'stone') continue;
+
+      const positions = findFarthestPosition({ row, col }, vector, grid, size);
+      const next = positions.next;
+
+      if (next && grid[next.row][next.col]) {
+        const nextTile = grid[next.row][next.col]!;
+        const mergeKey = `${next.row},${next.col}`;
+
+        if (canMerge(tile, nextTile, ruleSet) && !mergedPositions.has(mergeKey)) {
+          if (tile.kind === 'bomb' || nextTile.kind === 'bomb') {
+            // The bomb goes off where it lands, clearing the whole row
+            const cleared = state.tiles.filter((t) => t.row === next.row || t === tile);
+            cleared.forEach((t) => {
+              grid[t.row][t.col] = null;
+            });
+            state.tiles = state.tiles.filter((t) => !cleared.includes(t));
+            state.comboCount++;
+            moved = true;
+            events.push({
+              type: 'exploded',
+              row: next.row,
+              tileIds: cleared.map((t) => t.id),
+              sourceIds: [tile.id, nextTile.id],
+              to: { row: next.row, col: next.col },
+            });
+            continue;
+          }
+
+          // A wildcard becomes whatever partner the number it joins needs
+          const value =
+            tile.kind || nextTile.kind
+              ? rules.promote(tile.value || nextTile.value)
+              : rules.merge(tile.value, nextTile.value);
+          const merged: Tile = {
+            id: nextTile.id,
+            value,
+            row: next.row,
+            col: next.col,
+            justMerged: true,
+          };
+
+          state.score += merged.value;
+          state.comboCount++;
+
+          grid[row][col] = null;
+          state.tiles = state.tiles
+            .filter((t) => t !== tile)
+            .map((t) => (t === nextTile ? merged : t));
+
+          grid[next.row][next.col] = merged;
+          mergedPositions.add(mergeKey);
+          moved = true;
+
+          events.push({
+            type: 'merged',
+            tileId: merged.id,
+            sourceIds: [tile.id, nextTile.id],
+            value: merged.value,
+            from: { row, col },
+            to: { row: next.row, col: next.col },
+          });
+
+          if (merged.value >= rules.winValue && !state.won) {
+            state.won = true;
+            events.push({ type: 'won', value: merged.value });
+          }
+
+          // Only the first tile of each milestone on the board is celebrated
+          const level = rules.rank(merged.value) - rules.rank(rules.winValue);
+          if (level >= 1 && level <= MILESTONE_LEVELS && merged.value > highest) {
+            events.push({ type: 'milestone', value: merged.value, level, at: { row: next.row, col: next.col } });
+          }
+          highest = Math.max(highest, merged.value);
+          continue;
+        }
+      }
+
+      moveTile(tile, positions.farthest, grid);
+      if (positions.farthest.row !== row || positions.farthest.col !== col) {
+        moved = true;
+        events.push({ type: 'moved', tileId: tile.id, from: { row, col }, to: positions.farthest });
+      }
+    }
+  }
+
+  if (!moved) {
+    return { state: previous, moved: false, events: [] };
+  }
+
+  state.moves++;
+  state.bestCombo = Math.max(state.bestCombo, state.comboCount);
+  return { state, moved, events };
+};
+
+// ==================== END CONDITIONS ====================
+const endGame = (state: GameState, reason: EndReason): GameEvent => {
+  state.gameOver = true;
+  state.endReason = reason;
+  return { type: 'gameOver', reason };
+};
+
+// Reaching the target wins a race even on a locked board, and a locked board
+// ends a budget game before its last move is spent
+const getEndReason = (state: GameState, size: number, options: GameOptions): EndReason | null => {
+  const { mode } = options;
+  if (mode.kind === 'targetRace' && state.won) return 'targetReached';
+  if (!checkAvailableMoves(state, size, options.ruleSet)) return 'noMoves';
+  if (mode.kind === 'moveBudget' && state.moves >= mode.moves) return 'outOfMoves';
+  return null;
+};
+
+// The clock runs outside the engine, so callers report the elapsed time
+export const checkTimeLimit = (previous: GameState, mode: GameMode, elapsedSeconds: number): MoveResult => {
+  if (previous.gameOver || mode.kind !== 'timeAttack' || elapsedSeconds < mode.seconds) {
+    return { state: previous, moved: false, events: [] };
+  }
+  const state = cloneState(previous);
+  return { state, moved: false, events: [endGame(state, 'timeUp')] };
+};
+
+const finishMove = (
+  slid: MoveResult,
+  size: number,
+  spawned: { state: GameState; tile: Tile | null },
+  options: GameOptions
+): MoveResult => {
+  const state = spawned.state;
+  const events = [...slid.events];
+  if (spawned.tile) events.push({ type: 'spawned', tile: spawned.tile });
+
+  const reason = getEndReason(state, size, options);
+  if (reason) events.push(endGame(state, reason));
+
+  return { state, moved: true, events };
+};
+
+export const move = (
+  previous: GameState,
+  direction: Direction,
+  size = 4,
+  random: RandomSource = Math.random,
+  options: GameOptions = CLASSIC_OPTIONS
+): MoveResult => {
+  const slid = slide(previous, direction, size, options.ruleSet);
+  if (!slid.moved) return slid;
+  return finishMove(
+    slid,
+    size,
+    spawnTile(slid.state, size, random, options.chaos, options.ruleSet),
+    options
+  );
+};
+
+// Same as move, but places a known spawn instead of rolling one
+export const replayMove = (
+  previous: GameState,
+  direction: Direction,
+  size: number,
+  spawn: SpawnResult | null,
+  options: GameOptions = CLASSIC_OPTIONS
+): MoveResult => {
+  const slid = slide(previous, direction, size, options.ruleSet);
+  if (!slid.moved) return slid;
+  return finishMove(
+    slid,
+    size,
+    spawn ? placeTile(slid.state, spawn) : { state: slid.state, tile: null },
+    options
+  );
+};
+
+// A move exists when some tile that can move has an empty neighbour or a
+// neighbour it can merge with. Empty cells walled in by stones don't count.
+export const checkAvailableMoves = (
+  state: GameState,
+  size: number,
+  ruleSet: RuleSetId = 'classic'
+): boolean => {
+  const grid = buildGrid(state.tiles, size);
+  const neighbours = [getVector('up'), getVector('down'), getVector('left'), getVector('right')];
+
+  return state.tiles.some((tile) => {
+    if (tile.kind === 'stone') return false;
+    return neighbours.some(({ row, col }) => {
+      const r = tile.row + row;
+      const c = tile.col + col;
+      if (r < 0 || r >= size || c < 0 || c >= size) return false;
+      const neighbour = grid[r][c];
+      return neighbour === null || canMerge(tile, neighbour, ruleSet);
+    });
+  });
+};
+
+export const getHighestTile = (state: GameState): number =>
+  state.tiles.reduce((max, t) => Math.max(max, t.value), 0);
@@ -0,0 +1,88 @@
+// ==================== GAME HISTORY ====================
+// One entry per game, written when it ends or is walked away from, oldest
+// first. Capped so localStorage doesn't grow without bound.
+import type { EndReason } from './engine';
+import type { GameModeId } from './modes';
+import type { RuleSetId } from './rules';
+
+// How the game finished: one of the engine's end reasons, or left unfinished
+export type GameOutcome = EndReason | 'abandoned';
+
+export interface GameHistoryEntry {
+  // When the game finished
+  date: string;
+  score: number;
+  highestTile: number;
+  moves: number;
+  // Seconds on the game clock
+  duration: number;
+  undosUsed: number;
+  bestCombo: number;
+  won: boolean;
+  outcome: GameOutcome;
+  mode: GameModeId;
+  ruleSet: RuleSetId;
+  boardSize: number;
+}
+
+export const MAX_HISTORY = 500;
+
+const HISTORY_KEY = 'zipperMergeHistory';
+
+export const loadGameHistory = (): GameHistoryEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+// A full or blocked localStorage only loses this entry, never the game
+export const addGameHistory = (entry: GameHistoryEntry): GameHistoryEntry[] => {
+  const history = [...loadGameHistory(), entry].slice(-MAX_HISTORY);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (e) {
+    // Quota exceeded or storage disabled; the stored history stays as it was
+  }
+  return history;
+};
+
+// ==================== SUMMARIES ====================
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+// Runs of won games, oldest first; the current run counts back from the
+// latest game
+export const getWinStreaks = (history: GameHistoryEntry[]): Streaks => {
+  let current = 0;
+  let longest = 0;
+  history.forEach((game) => {
+    current = game.won ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  });
+  return { current, longest };
+};
+
+// How many games topped out at each tile, smallest tile first
+export const countHighestTiles = (history: GameHistoryEntry[]): { tile: number; count: number }[] => {
+  const counts = new Map<number, number>();
+  history.forEach((game) => counts.set(game.highestTile, (counts.get(game.highestTile) ?? 0) + 1));
+  return [...counts].sort((a, b) => a[0] - b[0]).map(([tile, count]) => ({ tile, count }));
+};
+
+// Best score for each board size or each mode that has been played
+export const bestScoresBy = <K extends 'boardSize' | 'mode'>(
+  history: GameHistoryEntry[],
+  key: K
+): Map<GameHistoryEntry[K], number> => {
+  const best = new Map<GameHistoryEntry[K], number>();
+  history.forEach((game) => best.set(game[key], Math.max(best.get(game[key]) ?? 0, game.score)));
+  return best;
+};
+
+export const averageOf = (history: GameHistoryEntry[], key: 'score' | 'moves' | 'duration'): number =>
+  history.reduce((sum, game) => sum + game[key], 0) / (history.length || 1);
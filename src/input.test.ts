@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_GAMEPAD_MAPPING,
+  DEFAULT_SHORTCUTS,
+  InputManager,
+  bindShortcut,
+  findShortcut,
+  isReservedKey,
+  remapButton,
+} from './input';
+import type { Direction } from './engine';
+import type { InputAction } from './input';
+
+// A standard-mapping pad with the given buttons held and stick position
+const fakePad = (pressed: number[] = [], axes: number[] = [0, 0], index = 0, id = 'Test Pad'): Gamepad =>
+  ({
+    id,
+    index,
+    axes,
+    buttons: Array.from({ length: 17 }, (_, i) => ({ pressed: pressed.includes(i), touched: false, value: 0 })),
+  }) as unknown as Gamepad;
+
+// An InputManager reading from a fake navigator.getGamepads, recording
+// everything it reports
+const setup = () => {
+  let pads: (Gamepad | null)[] = [];
+  const input = new InputManager(() => pads);
+  const moves: Direction[] = [];
+  const actions: InputAction[] = [];
+  const names: (string | null)[] = [];
+  input.setMoveHandler((direction) => moves.push(direction));
+  input.setActionHandler((action) => actions.push(action));
+  input.setGamepadListener((name) => names.push(name));
+  const poll = (...next: (Gamepad | null)[]) => {
+    pads = next;
+    return input.pollGamepads();
+  };
+  return { input, poll, moves, actions, names };
+};
+
+describe('InputManager gamepads', () => {
+  it('moves with the d-pad', () => {
+    const { poll, moves } = setup();
+    poll(fakePad([12]));
+    poll(fakePad());
+    poll(fakePad([15]));
+    expect(moves).toEqual(['up', 'right']);
+  });
+
+  it('moves with the left stick past the deadzone', () => {
+    const { poll, moves } = setup();
+    poll(fakePad([], [0.3, 0]));
+    poll(fakePad([], [-0.9, 0.2]));
+    poll(fakePad([], [0, 0]));
+    poll(fakePad([], [0.1, 0.8]));
+    expect(moves).toEqual(['left', 'down']);
+  });
+
+  it('moves once while a direction is held', () => {
+    const { poll, moves } = setup();
+    poll(fakePad([13]));
+    poll(fakePad([13]));
+    poll(fakePad([], [0, 1]));
+    expect(moves).toEqual(['down']);
+  });
+
+  it('fires A, B and Start once per press', () => {
+    const { poll, actions } = setup();
+    poll(fakePad([0]));
+    poll(fakePad([0]));
+    poll(fakePad());
+    poll(fakePad([0]));
+    poll(fakePad([1, 9]));
+    poll(fakePad([1, 9]));
+    expect(actions).toEqual(['newGame', 'newGame', 'undo', 'menu']);
+  });
+
+  it('ignores unmapped buttons', () => {
+    const { poll, actions } = setup();
+    poll(fakePad([2, 3, 4]));
+    expect(actions).toEqual([]);
+  });
+
+  it('follows a changed mapping', () => {
+    const { input, poll, actions } = setup();
+    input.setGamepadMapping({ ...DEFAULT_GAMEPAD_MAPPING, undo: 2 });
+    poll(fakePad([1]));
+    poll(fakePad([2]));
+    expect(actions).toEqual(['undo']);
+  });
+
+  it('hands the next button to captureButton instead of its action', () => {
+    const { input, poll, actions } = setup();
+    const captured: number[] = [];
+    input.captureButton((button) => captured.push(button));
+    poll(fakePad([12]));
+    poll(fakePad([12, 3]));
+    poll(fakePad([0]));
+    expect(captured).toEqual([3]);
+    expect(actions).toEqual(['newGame']);
+  });
+
+  it('stops capturing once released', () => {
+    const { input, poll, actions } = setup();
+    const captured: number[] = [];
+    const release = input.captureButton((button) => captured.push(button));
+    release();
+    poll(fakePad([1]));
+    expect(captured).toEqual([]);
+    expect(actions).toEqual(['undo']);
+  });
+
+  it('reports pads connecting and disconnecting', () => {
+    const { poll, names } = setup();
+    expect(poll()).toBe(0);
+    expect(poll(null, fakePad([], [0, 0], 1, 'Pad One'))).toBe(1);
+    poll(fakePad([], [0, 0], 1, 'Pad One'));
+    expect(poll(null, null)).toBe(0);
+    expect(names).toEqual([null, 'Pad One', null]);
+  });
+
+  it('tells a late listener about a pad already connected', () => {
+    const { input, poll } = setup();
+    poll(fakePad());
+    const names: (string | null)[] = [];
+    input.setGamepadListener((name) => names.push(name));
+    expect(names).toEqual(['Test Pad']);
+  });
+});
+
+describe('remapButton', () => {
+  it('moves a button to a new action', () => {
+    expect(remapButton(DEFAULT_GAMEPAD_MAPPING, 'undo', 2)).toEqual({ newGame: 0, undo: 2, menu: 9 });
+  });
+
+  it('swaps buttons when the new one was taken', () => {
+    expect(remapButton(DEFAULT_GAMEPAD_MAPPING, 'newGame', 1)).toEqual({ newGame: 1, undo: 0, menu: 9 });
+    expect(remapButton(DEFAULT_GAMEPAD_MAPPING, 'menu', 0)).toEqual({ newGame: 9, undo: 1, menu: 0 });
+  });
+});
+
+describe('shortcuts', () => {
+  it('match keys without regard to case', () => {
+    expect(findShortcut(DEFAULT_SHORTCUTS, 'Z')).toBe('undo');
+    expect(findShortcut(DEFAULT_SHORTCUTS, 'q')).toBeNull();
+  });
+
+  it('swap keys when the new one was taken', () => {
+    expect(bindShortcut(DEFAULT_SHORTCUTS, 'newGame', 'F2')).toEqual({ ...DEFAULT_SHORTCUTS, newGame: 'F2' });
+    expect(bindShortcut(DEFAULT_SHORTCUTS, 'undo', 'Y')).toEqual({ newGame: 'n', undo: 'Y', redo: 'z', menu: 'm' });
+  });
+});
+
+describe('isReservedKey', () => {
+  it('keeps the keys the page needs for itself', () => {
+    expect(['Tab', 'Enter', ' ', 'Escape', 'Shift'].every(isReservedKey)).toBe(true);
+    expect(['a', 'ArrowUp', 'F2'].some(isReservedKey)).toBe(false);
+  });
+});
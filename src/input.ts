@@ -0,0 +1,306 @@
+// ==================== INPUT ====================
+// Turns keys, swipes on the board (touch or mouse drag) and gamepads into
+// move directions. Every source reports through the same handler, so the
+// game never needs to know where a move came from.
+import type { Direction } from './engine';
+
+// Keys for each direction, as KeyboardEvent.key values. Matched without
+// regard to case, so caps lock or shift doesn't stop W from moving up.
+export type KeyBindings = Record<Direction, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  up: ['ArrowUp', 'w'],
+  down: ['ArrowDown', 's'],
+  left: ['ArrowLeft', 'a'],
+  right: ['ArrowRight', 'd'],
+};
+
+// Shortest drag, in CSS pixels, that counts as a swipe
+export const SWIPE_THRESHOLD = 30;
+
+// How far the stick has to lean before it counts, 0-1
+export const STICK_DEADZONE = 0.5;
+
+// Standard gamepad mapping: d-pad buttons and the left stick's axes
+const DPAD_BUTTONS: Record<Direction, number> = { up: 12, down: 13, left: 14, right: 15 };
+const STICK_X_AXIS = 0;
+const STICK_Y_AXIS = 1;
+
+// What a key or button can do besides moving
+export type InputAction = 'newGame' | 'undo' | 'redo' | 'menu';
+
+// One key per action, matched like the move keys. Checked after the move
+// bindings, so a key bound to a direction always moves.
+export type ShortcutBindings = Record<InputAction, string>;
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = { newGame: 'n', undo: 'z', redo: 'y', menu: 'm' };
+
+// Buttons other than the d-pad can be mapped to these
+export type GamepadAction = Exclude<InputAction, 'redo'>;
+
+// Button index for each action, in the standard mapping
+export type GamepadMapping = Record<GamepadAction, number>;
+
+export const DEFAULT_GAMEPAD_MAPPING: GamepadMapping = { newGame: 0, undo: 1, menu: 9 };
+
+// Standard mapping buttons as printed on an Xbox-style pad, by index
+const BUTTON_GLYPHS = ['Ⓐ', 'Ⓑ', 'Ⓧ', 'Ⓨ', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', '↑', '↓', '←', '→', 'Home'];
+
+export const findBoundDirection = (bindings: KeyBindings, key: string): Direction | null => {
+  const pressed = key.toLowerCase();
+  const directions = Object.keys(bindings) as Direction[];
+  return directions.find((direction) => bindings[direction].some((k) => k.toLowerCase() === pressed)) ?? null;
+};
+
+// Keys the page needs for itself: Tab and Enter/Space move between and press
+// buttons, Escape closes dialogs, and modifiers only ever change other keys
+const RESERVED_KEYS = ['Tab', 'Enter', ' ', 'Escape', 'Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+export const isReservedKey = (key: string): boolean => RESERVED_KEYS.includes(key);
+
+// Binds a key to one direction, taking it away from any other
+export const bindKey = (bindings: KeyBindings, direction: Direction, key: string): KeyBindings => {
+  const pressed = key.toLowerCase();
+  const updated = { ...bindings };
+  (Object.keys(updated) as Direction[]).forEach((d) => {
+    updated[d] = updated[d].filter((k) => k.toLowerCase() !== pressed);
+  });
+  updated[direction] = [...updated[direction], key];
+  return updated;
+};
+
+export const findShortcut = (shortcuts: ShortcutBindings, key: string): InputAction | null => {
+  const pressed = key.toLowerCase();
+  const actions = Object.keys(shortcuts) as InputAction[];
+  return actions.find((action) => shortcuts[action].toLowerCase() === pressed) ?? null;
+};
+
+// Binds a key to one action. An action that already had the key takes this
+// one's old key, so no two actions ever share one.
+export const bindShortcut = (shortcuts: ShortcutBindings, action: InputAction, key: string): ShortcutBindings => {
+  const updated = { ...shortcuts };
+  const previous = findShortcut(shortcuts, key);
+  if (previous) updated[previous] = shortcuts[action];
+  updated[action] = key;
+  return updated;
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ' ': 'Space',
+};
+
+export const formatKey = (key: string): string => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+// A key as aria-keyshortcuts names it, e.g. "N" or "F2"
+export const toAriaShortcut = (key: string): string =>
+  key === ' ' ? 'Space' : key.length === 1 ? key.toUpperCase() : key;
+
+export const formatButton = (button: number): string => BUTTON_GLYPHS[button] ?? `Button ${button}`;
+
+export const findMappedAction = (mapping: GamepadMapping, button: number): GamepadAction | null =>
+  (Object.keys(mapping) as GamepadAction[]).find((action) => mapping[action] === button) ?? null;
+
+// Maps a button to an action. An action that already had the button takes
+// this one's old button, so no two actions ever share one.
+export const remapButton = (mapping: GamepadMapping, action: GamepadAction, button: number): GamepadMapping => {
+  const updated = { ...mapping };
+  const previous = findMappedAction(mapping, button);
+  if (previous) updated[previous] = mapping[action];
+  updated[action] = button;
+  return updated;
+};
+
+// The longer axis of a drag decides the direction
+export const getSwipeDirection = (dx: number, dy: number, threshold = SWIPE_THRESHOLD): Direction | null => {
+  if (Math.max(Math.abs(dx), Math.abs(dy)) < threshold) return null;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 'right' : 'left';
+  return dy > 0 ? 'down' : 'up';
+};
+
+// The d-pad wins over the stick when both are pressed
+export const readGamepadDirection = (pad: Gamepad): Direction | null => {
+  const directions = Object.keys(DPAD_BUTTONS) as Direction[];
+  const pressed = directions.find((direction) => pad.buttons[DPAD_BUTTONS[direction]]?.pressed);
+  if (pressed) return pressed;
+
+  const x = pad.axes[STICK_X_AXIS] ?? 0;
+  const y = pad.axes[STICK_Y_AXIS] ?? 0;
+  if (Math.max(Math.abs(x), Math.abs(y)) < STICK_DEADZONE) return null;
+  if (Math.abs(x) > Math.abs(y)) return x > 0 ? 'right' : 'left';
+  return y > 0 ? 'down' : 'up';
+};
+
+const isDpadButton = (button: number): boolean => Object.values(DPAD_BUTTONS).includes(button);
+
+const readNavigatorGamepads = (): (Gamepad | null)[] =>
+  typeof navigator !== 'undefined' && navigator.getGamepads ? [...navigator.getGamepads()] : [];
+
+// Typing into a form field should never move tiles
+const isTyping = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export class InputManager {
+  private onMove: (direction: Direction) => void = () => {};
+  private onAction: (action: InputAction) => void = () => {};
+  private onGamepadChange: (name: string | null) => void = () => {};
+  private bindings: KeyBindings = DEFAULT_KEY_BINDINGS;
+  // Null while shortcuts are turned off
+  private shortcuts: ShortcutBindings | null = DEFAULT_SHORTCUTS;
+  private mapping: GamepadMapping = DEFAULT_GAMEPAD_MAPPING;
+  // Last direction and buttons each gamepad reported, so holding one acts only once
+  private padDirections = new Map<number, Direction | null>();
+  private padButtons = new Map<number, boolean[]>();
+  private padName: string | null = null;
+  // Set while the remapping screen waits for a button
+  private capture: ((button: number) => void) | null = null;
+  private getGamepads: () => (Gamepad | null)[];
+
+  // Pads are read through getGamepads, so a fake can stand in for the browser's
+  constructor(getGamepads = readNavigatorGamepads) {
+    this.getGamepads = getGamepads;
+  }
+
+  setMoveHandler(onMove: (direction: Direction) => void) {
+    this.onMove = onMove;
+  }
+
+  setActionHandler(onAction: (action: InputAction) => void) {
+    this.onAction = onAction;
+  }
+
+  // Told the first connected pad's name whenever it changes, or null once
+  // the last pad is gone
+  setGamepadListener(onGamepadChange: (name: string | null) => void) {
+    this.onGamepadChange = onGamepadChange;
+    onGamepadChange(this.padName);
+  }
+
+  setKeyBindings(bindings: KeyBindings) {
+    this.bindings = bindings;
+  }
+
+  setShortcuts(shortcuts: ShortcutBindings | null) {
+    this.shortcuts = shortcuts;
+  }
+
+  setGamepadMapping(mapping: GamepadMapping) {
+    this.mapping = mapping;
+  }
+
+  // The next button pressed on any pad goes to onButton instead of its
+  // action. Returns a function that stops waiting.
+  captureButton(onButton: (button: number) => void): () => void {
+    this.capture = onButton;
+    return () => {
+      if (this.capture === onButton) this.capture = null;
+    };
+  }
+
+  attachKeyboard(target: Window): () => void {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      const direction = findBoundDirection(this.bindings, e.key);
+      if (direction) {
+        e.preventDefault();
+        this.onMove(direction);
+        return;
+      }
+      // Holding a shortcut down shouldn't undo the whole game
+      const action = this.shortcuts && findShortcut(this.shortcuts, e.key);
+      if (action && !e.repeat) {
+        e.preventDefault();
+        this.onAction(action);
+      }
+    };
+    target.addEventListener('keydown', handleKeyDown);
+    return () => target.removeEventListener('keydown', handleKeyDown);
+  }
+
+  // Pointer events cover both touch swipes and mouse drags. Only the board
+  // listens, so the rest of the page and the modals still scroll.
+  attachSwipes(element: HTMLElement): () => void {
+    let start: { id: number; x: number; y: number } | null = null;
+
+    const handleDown = (e: PointerEvent) => {
+      if (!e.isPrimary || (e.pointerType === 'mouse' && e.button !== 0)) return;
+      start = { id: e.pointerId, x: e.clientX, y: e.clientY };
+      element.setPointerCapture(e.pointerId);
+    };
+    const handleUp = (e: PointerEvent) => {
+      if (!start || e.pointerId !== start.id) return;
+      const direction = getSwipeDirection(e.clientX - start.x, e.clientY - start.y);
+      start = null;
+      if (direction) this.onMove(direction);
+    };
+    const handleCancel = () => {
+      start = null;
+    };
+
+    element.addEventListener('pointerdown', handleDown);
+    element.addEventListener('pointerup', handleUp);
+    element.addEventListener('pointercancel', handleCancel);
+    return () => {
+      element.removeEventListener('pointerdown', handleDown);
+      element.removeEventListener('pointerup', handleUp);
+      element.removeEventListener('pointercancel', handleCancel);
+    };
+  }
+
+  // One read of every pad: a move for each newly pressed direction and an
+  // action for each newly pressed button. Returns how many pads are connected.
+  pollGamepads(): number {
+    const pads = this.getGamepads().filter((pad): pad is Gamepad => pad !== null);
+    pads.forEach((pad) => {
+      const direction = readGamepadDirection(pad);
+      if (direction && direction !== this.padDirections.get(pad.index)) this.onMove(direction);
+      this.padDirections.set(pad.index, direction);
+
+      const previous = this.padButtons.get(pad.index) ?? [];
+      pad.buttons.forEach((button, index) => {
+        if (!button.pressed || previous[index] || isDpadButton(index)) return;
+        const capture = this.capture;
+        if (capture) {
+          this.capture = null;
+          capture(index);
+          return;
+        }
+        const action = findMappedAction(this.mapping, index);
+        if (action) this.onAction(action);
+      });
+      this.padButtons.set(pad.index, pad.buttons.map((button) => button.pressed));
+    });
+
+    const name = pads[0]?.id ?? null;
+    if (name !== this.padName) {
+      this.padName = name;
+      this.onGamepadChange(name);
+    }
+    return pads.length;
+  }
+
+  // Gamepads have no events for buttons, so they're polled every frame
+  // while at least one is connected
+  attachGamepads(): () => void {
+    let frame = 0;
+
+    const poll = () => {
+      frame = this.pollGamepads() ? requestAnimationFrame(poll) : 0;
+    };
+    const startPolling = () => {
+      if (!frame) frame = requestAnimationFrame(poll);
+    };
+
+    window.addEventListener('gamepadconnected', startPolling);
+    startPolling();
+    return () => {
+      window.removeEventListener('gamepadconnected', startPolling);
+      cancelAnimationFrame(frame);
+      frame = 0;
+    };
+  }
+}
@@ -0,0 +1,96 @@
+// ==================== GAME MODES ====================
+// Selectable ways to play. Each mode hands the engine its end conditions and
+// keeps its own record table, ranked by the one thing the mode is about.
+import { CLASSIC_MODE } from './engine';
+import type { GameMode } from './engine';
+
+export type GameModeId = 'classic' | 'timeAttack3' | 'timeAttack5' | 'moveBudget' | 'targetRace';
+
+// What a record table is ranked by: best score, best tile or fastest finish
+export type RecordMetric = 'score' | 'highestTile' | 'time';
+
+export interface ModeInfo {
+  name: string;
+  icon: string;
+  description: string;
+  rules: GameMode;
+  metric: RecordMetric;
+}
+
+export interface ModeRecord {
+  score: number;
+  highestTile: number;
+  moves: number;
+  // Seconds on the clock when the game ended
+  time: number;
+  date: string;
+  // Set when undo was used; records from before it was tracked leave it out
+  undoUsed?: boolean;
+}
+
+export const MOVE_BUDGET = 150;
+export const MAX_MODE_RECORDS = 10;
+
+export const MODES: Record<GameModeId, ModeInfo> = {
+  classic: {
+    name: 'Classic',
+    icon: '♾️',
+    description: 'Play until the board locks up',
+    rules: CLASSIC_MODE,
+    metric: 'score',
+  },
+  timeAttack3: {
+    name: 'Time Attack 3m',
+    icon: '⏱️',
+    description: 'Highest score in 3 minutes',
+    rules: { kind: 'timeAttack', seconds: 180 },
+    metric: 'score',
+  },
+  timeAttack5: {
+    name: 'Time Attack 5m',
+    icon: '⏱️',
+    description: 'Highest score in 5 minutes',
+    rules: { kind: 'timeAttack', seconds: 300 },
+    metric: 'score',
+  },
+  moveBudget: {
+    name: 'Move Budget',
+    icon: '🎯',
+    description: `Best tile in ${MOVE_BUDGET} moves`,
+    rules: { kind: 'moveBudget', moves: MOVE_BUDGET },
+    metric: 'highestTile',
+  },
+  targetRace: {
+    name: 'Target Race',
+    icon: '🏁',
+    description: 'Reach the winning tile as fast as you can',
+    rules: { kind: 'targetRace' },
+    metric: 'time',
+  },
+};
+
+export const MODE_ORDER: GameModeId[] = ['classic', 'timeAttack3', 'timeAttack5', 'moveBudget', 'targetRace'];
+
+export const isGameModeId = (value: unknown): value is GameModeId =>
+  typeof value === 'string' && value in MODES;
+
+// ==================== RECORDS ====================
+// Best first. Ties fall back to score, then to fewer moves.
+const compareRecords = (metric: RecordMetric) => (a: ModeRecord, b: ModeRecord): number => {
+  if (metric === 'time' && a.time !== b.time) return a.time - b.time;
+  if (metric === 'highestTile' && a.highestTile !== b.highestTile) return b.highestTile - a.highestTile;
+  if (a.score !== b.score) return b.score - a.score;
+  return a.moves - b.moves;
+};
+
+// Inserts a finished game into a table, returning its 1-based rank or null
+// when it didn't make the cut
+export const addModeRecord = (
+  records: ModeRecord[],
+  record: ModeRecord,
+  mode: GameModeId
+): { records: ModeRecord[]; rank: number | null } => {
+  const sorted = [...records, record].sort(compareRecords(MODES[mode].metric)).slice(0, MAX_MODE_RECORDS);
+  const index = sorted.indexOf(record);
+  return { records: sorted, rank: index === -1 ? null : index + 1 };
+};
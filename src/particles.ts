@@ -0,0 +1,420 @@
+// ==================== PARTICLE SYSTEM ====================
+// Progressive merge fireworks, simulated in board percentages and drawn onto a
+// single canvas. Physics constants are tuned per 50ms tick and scaled by the
+// real frame time, so particles move at the same speed at any frame rate.
+
+export type ParticleType = 'regular' | 'firework' | 'spark' | 'trail' | 'star' | 'heart' | 'triangle' | 'ring';
+
+export interface Particle {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  color: string;
+  size: number;
+  type: ParticleType;
+  rotation?: number;
+  rotationSpeed?: number;
+  pulsePhase?: number;
+}
+
+const TICK_MS = 50;
+// A long frame (background tab, GC pause) is clamped so particles don't jump
+const MAX_FRAME_MS = 100;
+// Upper bound on live particles so a big combo can't tank the frame rate
+export const MAX_PARTICLES = 600;
+
+// Progressive fireworks based on tile value
+export const createEnhancedFireworks = (x: number, y: number, value: number, color: string): Particle[] => {
+  const particles: Particle[] = [];
+  
+  // 32: Rainbow burst + trails
+  if (value >= 32) {
+    const rainbowColors = ['#ff0080', '#00ff80', '#0080ff', '#ff8000', '#8000ff', '#ffff00'];
+    const burstCount = 12;
+    
+    for (let i = 0; i < burstCount; i++) {
+      const angle = (Math.PI * 2 * i) / burstCount;
+      const speed = 2.5 + Math.random() * 1.5;
+      
+      particles.push({
+        id: `firework-${Date.now()}-${i}-${Math.random()}`,
+        x,
+        y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed - 0.5,
+        life: 1.6,
+        color: rainbowColors[i % rainbowColors.length],
+        size: 3.5 + Math.random() * 1.5,
+        type: 'firework',
+      });
+    }
+    
+    // Add trailing particles, tinted with the merged tile's own color
+    const trailColors = [...rainbowColors, color];
+    const trailCount = 8;
+    for (let i = 0; i < trailCount; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      const speed = 1.5 + Math.random() * 1;
+      
+      particles.push({
+        id: `trail-${Date.now()}-${i}-${Math.random()}`,
+        x,
+        y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        life: 1.8,
+        color: trailColors[Math.floor(Math.random() * trailColors.length)],
+        size: 2.5 + Math.random() * 1,
+        type: 'trail',
+      });
+    }
+  }
+  
+  // 64: Add white sparks shooting upward
+  if (value >= 64) {
+    const sparkCount = 15;
+    for (let i = 0; i < sparkCount; i++) {
+      const angle = -Math.PI / 2 + (Math.random() - 0.5) * 0.6;
+      const speed = 4 + Math.random() * 3;
+      
+      particles.push({
+        id: `spark-${Date.now()}-${i}-${Math.random()}`,
+        x,
+        y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        life: 1.3,
+        color: '#ffffff',
+        size: 2.5 + Math.random() * 1,
+        type: 'spark',
+      });
+    }
+  }
+  
+  // 128: Add rotating stars
+  if (value >= 128) {
+    const starCount = 8;
+    for (let i = 0; i < starCount; i++) {
+      const angle = (Math.PI * 2 * i) / starCount;
+      const speed = 2 + Math.random() * 1.5;
+      
+      particles.push({
+        id: `star-${Date.now()}-${i}-${Math.random()}`,
+        x,
+        y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed - 0.3,
+        life: 2.0,
+        color: '#ffff00',
+        size: 4 + Math.random() * 2,
+        type: 'star',
+        rotation: Math.random() * Math.PI * 2,
+        rotationSpeed: (Math.random() - 0.5) * 0.3,
+      });
+    }
+  }
+  
+  // 256: Add pulsing hearts
+  if (value >= 256) {
+    const heartCount = 6;
+    for (let i = 0; i < heartCount; i++) {
+      const angle = (Math.PI * 2 * i) / heartCount;
+      const speed = 1.5 + Math.random() * 1;
+      
+      particles.push({
+        id: `heart-${Date.now()}-${i}-${Math.random()}`,
+        x,
+        y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed - 0.5,
+        life: 2.2,
+        color: '#ff1493',
+        size: 5 + Math.random() * 2,
+        type: 'heart',
+        pulsePhase: Math.random() * Math.PI * 2,
+      });
+    }
+  }
+  
+  // 512: Add expanding rings
+  if (value >= 512) {
+    const ringCount = 5;
+    for (let i = 0; i < ringCount; i++) {
+      const angle = (Math.PI * 2 * i) / ringCount;
+      const speed = 3 + Math.random() * 2;
+      
+      particles.push({
+        id: `ring-${Date.now()}-${i}-${Math.random()}`,
+        x,
+        y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        life: 2.5,
+        color: '#00ffff',
+        size: 6 + Math.random() * 2,
+        type: 'ring',
+        rotation: angle,
+      });
+    }
+  }
+  
+  // 1024+: Add triangles spinning outward
+  if (value >= 1024) {
+    const triangleCount = 10;
+    for (let i = 0; i < triangleCount; i++) {
+      const angle = (Math.PI * 2 * i) / triangleCount;
+      const speed = 2.5 + Math.random() * 2;
+      
+      particles.push({
+        id: `triangle-${Date.now()}-${i}-${Math.random()}`,
+        x,
+        y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed - 0.2,
+        life: 2.8,
+        color: '#ff00ff',
+        size: 5 + Math.random() * 2,
+        type: 'triangle',
+        rotation: Math.random() * Math.PI * 2,
+        rotationSpeed: (Math.random() - 0.5) * 0.4,
+      });
+    }
+  }
+  
+  return particles;
+};
+
+// ==================== MILESTONES ====================
+// Tiers above 1024+, one per milestone past the winning tile. Each fires more
+// shells across the board in its own colors on top of the biggest merge burst.
+const MILESTONE_TIERS = [
+  { shells: 3, colors: ['#ffd700', '#ffae00', '#fff4b0'] },
+  { shells: 5, colors: ['#00e5ff', '#7c4dff', '#e0f7ff'] },
+  { shells: 8, colors: ['#ff1744', '#00e676', '#2979ff', '#ffea00', '#d500f9'] },
+];
+
+export const createMilestoneFireworks = (x: number, y: number, level: number, color: string): Particle[] => {
+  const tier = MILESTONE_TIERS[Math.min(Math.max(level, 1), MILESTONE_TIERS.length) - 1];
+  const particles = createEnhancedFireworks(x, y, 1024, color);
+
+  for (let shell = 0; shell < tier.shells; shell++) {
+    // Shells spread evenly across the top half of the board
+    const shellX = ((shell + 0.5) / tier.shells) * 100;
+    const shellY = 15 + Math.random() * 35;
+    const burstCount = 16;
+
+    for (let i = 0; i < burstCount; i++) {
+      const angle = (Math.PI * 2 * i) / burstCount;
+      const speed = 3 + Math.random() * 1.5;
+
+      particles.push({
+        id: `shell-${Date.now()}-${shell}-${i}-${Math.random()}`,
+        x: shellX,
+        y: shellY,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed - 1,
+        life: 2.2,
+        color: tier.colors[i % tier.colors.length],
+        size: 4 + Math.random() * 2,
+        type: 'firework',
+      });
+    }
+
+    // From the second milestone on, every shell leaves a ring behind
+    if (level >= 2) {
+      particles.push({
+        id: `shell-ring-${Date.now()}-${shell}-${Math.random()}`,
+        x: shellX,
+        y: shellY,
+        vx: 0,
+        vy: -0.5,
+        life: 2.5,
+        color: tier.colors[shell % tier.colors.length],
+        size: 14,
+        type: 'ring',
+      });
+    }
+
+    // The last milestone rains stars from each shell
+    if (level >= 3) {
+      for (let i = 0; i < 4; i++) {
+        particles.push({
+          id: `shell-star-${Date.now()}-${shell}-${i}-${Math.random()}`,
+          x: shellX,
+          y: shellY,
+          vx: (Math.random() - 0.5) * 3,
+          vy: -2 - Math.random() * 2,
+          life: 2.6,
+          color: '#ffff00',
+          size: 5 + Math.random() * 2,
+          type: 'star',
+          rotation: Math.random() * Math.PI * 2,
+          rotationSpeed: (Math.random() - 0.5) * 0.4,
+        });
+      }
+    }
+  }
+
+  return particles;
+};
+
+export const updateParticles = (particles: Particle[], elapsedMs: number): Particle[] => {
+  const ticks = Math.min(elapsedMs, MAX_FRAME_MS) / TICK_MS;
+
+  return particles
+    .map((p) => {
+      let gravity = 0.5;
+      let fadeRate = 0.05;
+      let airResistance = 1.0;
+
+      if (p.type === 'firework') {
+        gravity = 0.35;
+        fadeRate = 0.025;
+        airResistance = 0.98;
+      } else if (p.type === 'spark') {
+        gravity = 0.25;
+        fadeRate = 0.03;
+        airResistance = 0.97;
+      } else if (p.type === 'trail') {
+        gravity = 0.15;
+        fadeRate = 0.02;
+        airResistance = 0.96;
+      } else if (p.type === 'star') {
+        gravity = 0.3;
+        fadeRate = 0.022;
+        airResistance = 0.97;
+      } else if (p.type === 'heart') {
+        gravity = 0.2;
+        fadeRate = 0.02;
+        airResistance = 0.96;
+      } else if (p.type === 'ring') {
+        gravity = 0.25;
+        fadeRate = 0.018;
+        airResistance = 0.95;
+      } else if (p.type === 'triangle') {
+        gravity = 0.28;
+        fadeRate = 0.016;
+        airResistance = 0.96;
+      }
+
+      const newParticle = {
+        ...p,
+        x: p.x + p.vx * ticks,
+        y: p.y + p.vy * ticks,
+        vx: p.vx * Math.pow(airResistance, ticks),
+        vy: p.vy + gravity * ticks,
+        life: p.life - fadeRate * ticks,
+      };
+
+      if (p.rotation !== undefined && p.rotationSpeed !== undefined) {
+        newParticle.rotation = (p.rotation + p.rotationSpeed * ticks) % (Math.PI * 2);
+      }
+
+      if (p.pulsePhase !== undefined) {
+        newParticle.pulsePhase = p.pulsePhase + 0.15 * ticks;
+      }
+
+      return newParticle;
+    })
+    .filter((p) => p.life > 0 && p.y < 120);
+};
+
+// ==================== CANVAS RENDERING ====================
+const GLOW: Record<ParticleType, number> = {
+  regular: 1,
+  firework: 4,
+  spark: 3,
+  trail: 4,
+  star: 3,
+  heart: 3.5,
+  ring: 4,
+  triangle: 3.5,
+};
+
+const traceStar = (ctx: CanvasRenderingContext2D, r: number) => {
+  for (let i = 0; i < 10; i++) {
+    const radius = i % 2 === 0 ? r : r * 0.45;
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    ctx.lineTo(Math.cos(angle) * radius, Math.sin(angle) * radius);
+  }
+  ctx.closePath();
+};
+
+const traceHeart = (ctx: CanvasRenderingContext2D, r: number) => {
+  ctx.moveTo(0, r * 0.9);
+  ctx.bezierCurveTo(-r * 1.6, -r * 0.1, -r * 0.6, -r * 1.2, 0, -r * 0.4);
+  ctx.bezierCurveTo(r * 0.6, -r * 1.2, r * 1.6, -r * 0.1, 0, r * 0.9);
+  ctx.closePath();
+};
+
+const traceTriangle = (ctx: CanvasRenderingContext2D, r: number) => {
+  ctx.moveTo(0, -r);
+  ctx.lineTo(r * 0.87, r * 0.5);
+  ctx.lineTo(-r * 0.87, r * 0.5);
+  ctx.closePath();
+};
+
+// Draws particles onto a canvas already scaled to CSS pixels of width x height
+export const drawParticles = (
+  ctx: CanvasRenderingContext2D,
+  particles: Particle[],
+  width: number,
+  height: number
+) => {
+  ctx.clearRect(0, 0, width, height);
+
+  particles.forEach((p) => {
+    const r = p.size / 2;
+    const scale = p.type === 'heart' && p.pulsePhase !== undefined ? 1 + Math.sin(p.pulsePhase) * 0.3 : 1;
+
+    ctx.save();
+    ctx.globalAlpha = Math.max(0, Math.min(p.life, 1));
+    ctx.translate((p.x / 100) * width, (p.y / 100) * height);
+    ctx.rotate(p.rotation || 0);
+    ctx.scale(scale, scale);
+    ctx.shadowColor = p.color;
+    ctx.shadowBlur = p.size * GLOW[p.type];
+    ctx.fillStyle = p.color;
+    ctx.strokeStyle = p.color;
+
+    ctx.beginPath();
+    if (p.type === 'star') {
+      traceStar(ctx, r);
+      ctx.fill();
+    } else if (p.type === 'heart') {
+      traceHeart(ctx, r);
+      ctx.fill();
+    } else if (p.type === 'triangle') {
+      traceTriangle(ctx, r);
+      ctx.fill();
+    } else if (p.type === 'ring') {
+      ctx.lineWidth = Math.max(2, p.size / 4);
+      ctx.arc(0, 0, r, 0, Math.PI * 2);
+      ctx.stroke();
+    } else {
+      ctx.arc(0, 0, r, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.restore();
+  });
+};
+
+// ==================== INTENSITY ====================
+export type ParticleIntensity = 'off' | 'low' | 'medium' | 'high';
+
+export const PARTICLE_INTENSITY: Record<ParticleIntensity, number> = {
+  off: 0,
+  low: 0.35,
+  medium: 0.7,
+  high: 1,
+};
+
+// Keeps an evenly spread fraction of particles, so every firework type stays
+// represented at lower intensities
+export const thinParticles = (particles: Particle[], fraction: number): Particle[] =>
+  fraction >= 1
+    ? particles
+    : particles.filter((_, i) => Math.floor((i + 1) * fraction) > Math.floor(i * fraction));
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CLASSIC_MODE, createGame, move } from './engine';
+import type { ChaosRates, Direction, GameOptions, GameState } from './engine';
+import { buildReplayFrames, recordMove, startRecording } from './recording';
+import { createRng, toRandomSource } from './rng';
+
+// Plays and records a seeded game the way App does, keeping every position
+const playRecorded = (seed: number, options: GameOptions) => {
+  const random = toRandomSource(createRng(seed));
+  let state = createGame(4, random, options.ruleSet);
+  const recording = startRecording(state, 4, seed, options.mode, options.ruleSet);
+  const positions: GameState[] = [state];
+  const directions: Direction[] = ['up', 'left', 'down', 'left', 'right'];
+  for (let i = 0; i < 300 && !state.gameOver; i++) {
+    const direction = directions[i % directions.length];
+    const result = move(state, direction, 4, random, options);
+    if (!result.moved) continue;
+    recordMove(recording, direction, result.events);
+    state = result.state;
+    positions.push(state);
+  }
+  return { recording, positions };
+};
+
+describe('buildReplayFrames', () => {
+  const chaos: ChaosRates = { stone: 0.05, wildcard: 0.05, bomb: 0.05 };
+
+  it.each<[string, GameOptions]>([
+    ['classic', { mode: CLASSIC_MODE, chaos: null, ruleSet: 'classic' }],
+    ['chaos threes', { mode: CLASSIC_MODE, chaos, ruleSet: 'threes' }],
+    ['move budget', { mode: { kind: 'moveBudget', moves: 40 }, chaos: null, ruleSet: 'classic' }],
+  ])('rebuilds every position of a %s game', (_, options) => {
+    const { recording, positions } = playRecorded(31, options);
+    const frames = buildReplayFrames(recording);
+    expect(frames.map((frame) => frame.state)).toEqual(positions);
+    expect(frames[0].events).toEqual([]);
+  });
+
+  it('keeps the events of each move for animation', () => {
+    const { recording } = playRecorded(8, { mode: CLASSIC_MODE, chaos: null, ruleSet: 'classic' });
+    const frames = buildReplayFrames(recording);
+    frames.slice(1).forEach((frame) => {
+      expect(frame.events.some((e) => e.type === 'moved' || e.type === 'merged')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+// ==================== GAME RECORDING ====================
+// A compact, replayable log of one game: the opening tiles plus the direction
+// and resulting spawn of every move. Spawns are stored rather than re-rolled
+// from the seed so recordings stay exact even when undo was used.
+import { createEmptyState, placeTile, replayMove } from './engine';
+import type { Direction, GameEvent, GameMode, GameState, SpawnResult } from './engine';
+import type { RuleSetId } from './rules';
+
+export interface RecordedMove {
+  direction: Direction;
+  spawn: SpawnResult | null;
+}
+
+export interface GameRecording {
+  size: number;
+  seed: number;
+  mode: GameMode;
+  ruleSet: RuleSetId;
+  initialTiles: SpawnResult[];
+  moves: RecordedMove[];
+}
+
+export const startRecording = (
+  state: GameState,
+  size: number,
+  seed: number,
+  mode: GameMode,
+  ruleSet: RuleSetId
+): GameRecording => ({
+  size,
+  seed,
+  mode,
+  ruleSet,
+  initialTiles: state.tiles.map(({ row, col, value }) => ({ row, col, value })),
+  moves: [],
+});
+
+export const recordMove = (recording: GameRecording, direction: Direction, events: GameEvent[]) => {
+  const spawned = events.find((e) => e.type === 'spawned');
+  let spawn: SpawnResult | null = null;
+  if (spawned && spawned.type === 'spawned') {
+    const { row, col, value, kind } = spawned.tile;
+    spawn = kind ? { row, col, value, kind } : { row, col, value };
+  }
+  recording.moves.push({ direction, spawn });
+};
+
+// One position of a replay and the events of the move that led to it, so the
+// viewer can animate the move like live play
+export interface ReplayFrame {
+  state: GameState;
+  events: GameEvent[];
+}
+
+// Rebuilds every position of the game; frame 0 is the opening board
+export const buildReplayFrames = (recording: GameRecording): ReplayFrame[] => {
+  let state = createEmptyState();
+  recording.initialTiles.forEach((spawn) => {
+    state = placeTile(state, spawn).state;
+  });
+
+  const frames: ReplayFrame[] = [{ state, events: [] }];
+  // Spawns are already recorded, so chaos rates aren't needed to replay
+  const options = { mode: recording.mode, chaos: null, ruleSet: recording.ruleSet };
+  recording.moves.forEach(({ direction, spawn }) => {
+    const result = replayMove(state, direction, recording.size, spawn, options);
+    state = result.state;
+    frames.push({ state, events: result.events });
+  });
+  return frames;
+};
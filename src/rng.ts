@@ -0,0 +1,29 @@
+// ==================== SEEDED RNG ====================
+// Mulberry32: tiny, fast and good enough for tile spawns. The whole generator
+// is two numbers, so it can be stored alongside a game and resumed exactly.
+import type { RandomSource } from './engine';
+
+export interface Rng {
+  seed: number;
+  state: number;
+}
+
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+export const createRng = (seed: number = createSeed()): Rng => ({
+  seed: seed >>> 0,
+  state: seed >>> 0,
+});
+
+export const nextRandom = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Adapts an Rng to the engine's RandomSource, advancing it on every call
+export const toRandomSource = (rng: Rng): RandomSource => () => nextRandom(rng);
+
+export const formatSeed = (seed: number): string => seed.toString(36).toUpperCase().padStart(7, '0');
@@ -0,0 +1,100 @@
+// ==================== RULE SETS ====================
+// What tiles exist and how they combine. The engine asks the active rule set
+// which pairs merge, what they make, what spawns and which tile wins, so new
+// variants need no engine changes. Everything here works on plain values, not
+// tiles, and rule sets are looked up by id so game state stays serializable.
+
+export type RuleSetId = 'classic' | 'fibonacci' | 'threes';
+
+export interface SpawnOdds {
+  value: number;
+  weight: number;
+}
+
+export interface RuleSet {
+  name: string;
+  icon: string;
+  description: string;
+  canMerge: (a: number, b: number) => boolean;
+  merge: (a: number, b: number) => number;
+  // What a tile becomes when a wildcard joins it
+  promote: (value: number) => number;
+  // 1 for the smallest tile, counting up the progression. Colors, fireworks
+  // and the solver work on rank so every rule set looks and plays alike.
+  rank: (value: number) => number;
+  spawns: SpawnOdds[];
+  winValue: number;
+}
+
+// 1, 2, 3, 5, 8, ... far past anything a board can hold
+const FIBONACCI = [1, 2];
+while (FIBONACCI.length < 60) {
+  FIBONACCI.push(FIBONACCI[FIBONACCI.length - 1] + FIBONACCI[FIBONACCI.length - 2]);
+}
+
+export const RULE_SETS: Record<RuleSetId, RuleSet> = {
+  classic: {
+    name: 'Classic',
+    icon: '2️⃣',
+    description: 'Equal tiles merge and double',
+    canMerge: (a, b) => a === b,
+    merge: (a, b) => a + b,
+    promote: (value) => value * 2,
+    rank: (value) => Math.log2(value),
+    spawns: [
+      { value: 2, weight: 0.9 },
+      { value: 4, weight: 0.1 },
+    ],
+    winValue: 2048,
+  },
+  fibonacci: {
+    name: 'Fibonacci',
+    icon: '🐚',
+    description: 'Neighbours in 1, 2, 3, 5, 8… merge into the next',
+    canMerge: (a, b) =>
+      (a === 1 && b === 1) || Math.abs(FIBONACCI.indexOf(a) - FIBONACCI.indexOf(b)) === 1,
+    merge: (a, b) => a + b,
+    promote: (value) => FIBONACCI[FIBONACCI.indexOf(value) + 1] ?? value * 2,
+    rank: (value) => FIBONACCI.indexOf(value) + 1,
+    spawns: [
+      { value: 1, weight: 0.9 },
+      { value: 2, weight: 0.1 },
+    ],
+    winValue: 2584,
+  },
+  threes: {
+    name: 'Threes',
+    icon: '3️⃣',
+    description: '1 + 2 make 3, then equal tiles double',
+    canMerge: (a, b) => (a === 1 && b === 2) || (a === 2 && b === 1) || (a === b && a >= 3),
+    merge: (a, b) => a + b,
+    promote: (value) => (value < 3 ? 3 : value * 2),
+    rank: (value) => (value < 3 ? value : Math.log2(value / 3) + 3),
+    spawns: [
+      { value: 1, weight: 0.4 },
+      { value: 2, weight: 0.4 },
+      { value: 3, weight: 0.2 },
+    ],
+    winValue: 3072,
+  },
+};
+
+export const RULE_SET_ORDER: RuleSetId[] = ['classic', 'fibonacci', 'threes'];
+
+export const isRuleSetId = (value: unknown): value is RuleSetId =>
+  typeof value === 'string' && value in RULE_SETS;
+
+// The classic tile at the same rank, so colors and effects carry over
+export const toClassicValue = (ruleSet: RuleSetId, value: number): number => 2 ** RULE_SETS[ruleSet].rank(value);
+
+// Weighted pick from a rule set's spawns using one random number in [0, 1).
+// Classic's 0.9/0.1 split gives the same tiles as the original 2-or-4 roll.
+export const pickSpawnValue = (ruleSet: RuleSet, roll: number): number => {
+  const total = ruleSet.spawns.reduce((sum, s) => sum + s.weight, 0);
+  let remaining = roll * total;
+  for (const spawn of ruleSet.spawns) {
+    if (remaining < spawn.weight) return spawn.value;
+    remaining -= spawn.weight;
+  }
+  return ruleSet.spawns[ruleSet.spawns.length - 1].value;
+};
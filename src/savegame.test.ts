@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CLASSIC_MODE, createGame } from './engine';
+import { createRng, toRandomSource } from './rng';
+import { SAVE_VERSION, loadSavedGame, saveGame, saveGameTime } from './savegame';
+import type { SavedGame } from './savegame';
+
+const SAVE_KEY = 'zipperMergeSavedGame';
+const TIME_KEY = 'zipperMergeSavedGameTime';
+
+// A Map-backed localStorage; tests swap in their own setItem to make it fail
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+};
+
+let storage: ReturnType<typeof createStorage>;
+
+beforeEach(() => {
+  storage = createStorage();
+  vi.stubGlobal('localStorage', storage);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const rng = createRng(11);
+const state = createGame(4, toRandomSource(createRng(11)));
+const { bestCombo: _, ...stateBeforeBestCombo } = { ...state, comboCount: 2 };
+
+// A save as version 1 wrote it: no mode, rule set, policy or best combo, and
+// history as bare states
+const V1_SAVE = {
+  version: 1,
+  boardSize: 4,
+  gameTime: 42,
+  state: stateBeforeBestCombo,
+  history: [stateBeforeBestCombo],
+  future: [],
+  undosRemaining: 2,
+  undosUsed: 1,
+  rng,
+  recording: { size: 4, seed: 11, initialTiles: [], moves: [] },
+};
+
+const store = (save: unknown) => storage.setItem(SAVE_KEY, JSON.stringify(save));
+
+describe('loadSavedGame', () => {
+  it('upgrades a version 1 save to the current version', () => {
+    store(V1_SAVE);
+    const save = loadSavedGame()!;
+    expect(save.version).toBe(SAVE_VERSION);
+    expect(save).toMatchObject({ gameMode: 'classic', ruleSet: 'classic', undoPolicy: 'limited', gameTime: 42 });
+    expect(save.recording).toMatchObject({ mode: CLASSIC_MODE, ruleSet: 'classic' });
+    expect(save.state.bestCombo).toBe(2);
+    expect(save.history).toEqual([{ state: { ...stateBeforeBestCombo, bestCombo: 2 }, rng }]);
+    expect(save.keepSpawns).toBe(false);
+    expect(save.dailyDate).toBeNull();
+    expect(save.chaos).toBeNull();
+  });
+
+  it('keeps the fields a version 3 save already has', () => {
+    store({ ...V1_SAVE, version: 3, gameMode: 'targetRace', ruleSet: 'threes', history: [] });
+    expect(loadSavedGame()).toMatchObject({ gameMode: 'targetRace', ruleSet: 'threes' });
+  });
+
+  it('falls back to defaults for unknown ids', () => {
+    store({ ...V1_SAVE, version: 3, gameMode: 'speedrun', ruleSet: 'hexagons' });
+    expect(loadSavedGame()).toMatchObject({ gameMode: 'classic', ruleSet: 'classic' });
+  });
+
+  it('drops history entries that hold no board', () => {
+    const snapshot = { state, rng };
+    store({ ...V1_SAVE, version: SAVE_VERSION, history: [snapshot, { state: null, rng }, 'junk'] });
+    expect(loadSavedGame()!.history).toEqual([snapshot]);
+  });
+
+  it.each([
+    ['a save from a newer version', JSON.stringify({ ...V1_SAVE, version: SAVE_VERSION + 1 })],
+    ['a save without a board', JSON.stringify({ ...V1_SAVE, state: null })],
+    ['a save without a version', JSON.stringify({ ...V1_SAVE, version: undefined })],
+    ['corrupt JSON', '{"version": 4,'],
+  ])('rejects %s', (_, saved) => {
+    storage.setItem(SAVE_KEY, saved);
+    expect(loadSavedGame()).toBeNull();
+  });
+
+  it('prefers the separately saved clock', () => {
+    store(V1_SAVE);
+    saveGameTime(97);
+    expect(loadSavedGame()!.gameTime).toBe(97);
+  });
+});
+
+describe('saveGame', () => {
+  const save: Omit<SavedGame, 'version'> = {
+    boardSize: 4,
+    gameMode: 'classic',
+    ruleSet: 'classic',
+    gameTime: 5,
+    state,
+    history: [],
+    future: [],
+    undoPolicy: 'limited',
+    keepSpawns: true,
+    undosRemaining: 3,
+    undosUsed: 0,
+    rng,
+    recording: { size: 4, seed: 11, mode: CLASSIC_MODE, ruleSet: 'classic', initialTiles: [], moves: [] },
+    dailyDate: null,
+    chaos: null,
+  };
+
+  it('loads back what it saved', () => {
+    saveGame(save);
+    expect(loadSavedGame()).toEqual({ version: SAVE_VERSION, ...save });
+  });
+
+  it('ignores a full or blocked localStorage', () => {
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    expect(() => saveGame(save)).not.toThrow();
+    expect(() => saveGameTime(6)).not.toThrow();
+    expect(storage.getItem(TIME_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+// ==================== SAVED GAME ====================
+// The in-progress game is written to localStorage after every move so a reload
+// can pick up where it left off. The clock ticks every second, so it's kept
+// under its own key rather than rewriting the whole game each tick.
+//
+// Saves carry a version number; loading runs older saves through MIGRATIONS
+// and fills in defaults for missing fields, so adding a field later never
+// invalidates an existing save.
+import { CLASSIC_MODE } from './engine';
+import type { ChaosRates, GameState } from './engine';
+import { isGameModeId } from './modes';
+import type { GameModeId } from './modes';
+import { isRuleSetId } from './rules';
+import type { RuleSetId } from './rules';
+import type { GameRecording } from './recording';
+import type { Rng } from './rng';
+import { MAX_SAVED_HISTORY } from './undo';
+import type { Snapshot, UndoPolicy } from './undo';
+
+const SAVE_KEY = 'zipperMergeSavedGame';
+const TIME_KEY = 'zipperMergeSavedGameTime';
+export const SAVE_VERSION = 4;
+
+export interface SavedGame {
+  version: number;
+  boardSize: number;
+  gameMode: GameModeId;
+  ruleSet: RuleSetId;
+  gameTime: number;
+  state: GameState;
+  // Positions undo and redo step back and forward to
+  history: Snapshot[];
+  future: Snapshot[];
+  undoPolicy: UndoPolicy;
+  // Whether undo rewinds the generator, fixed for the game like the policy
+  keepSpawns: boolean;
+  undosRemaining: number;
+  undosUsed: number;
+  rng: Rng;
+  recording: GameRecording;
+  // Date of the daily challenge this game is, or null for a normal game
+  dailyDate: string | null;
+  // Special tile spawn rates, or null for numbers only
+  chaos: ChaosRates | null;
+}
+
+// A save as read back from storage: nothing about it is trusted until migrate
+// has checked it
+type RawSave = Record<string, unknown> & { version: number };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown): Record<string, unknown> => (isRecord(value) ? value : {});
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asNumber = (value: unknown, fallback: number): number => (typeof value === 'number' ? value : fallback);
+
+// Each entry upgrades a save from the keyed version to the next one
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // v2 added game modes; everything before was classic
+  1: (save) => ({ ...save, gameMode: 'classic', recording: { ...asRecord(save.recording), mode: CLASSIC_MODE } }),
+  // v3 added merge rule sets; everything before used the classic rules
+  2: (save) => ({ ...save, ruleSet: 'classic', recording: { ...asRecord(save.recording), ruleSet: 'classic' } }),
+  // v4 stored the generator with each undo step. Older steps get the current
+  // one, which matches the re-rolled spawns undo used to give.
+  3: (save) => ({
+    ...save,
+    history: asArray(save.history).map((state) => ({ state, rng: save.rng })),
+    undoPolicy: 'limited',
+  }),
+};
+
+const UNDO_POLICIES: UndoPolicy[] = ['none', 'limited', 'earned', 'unlimited'];
+
+// Saves from before bestCombo was tracked start it at the last move's combo
+type StoredState = Omit<GameState, 'bestCombo'> & { bestCombo?: number };
+
+const isStoredState = (value: unknown): value is StoredState => isRecord(value) && Array.isArray(value.tiles);
+
+const withBestCombo = (state: StoredState): GameState => ({
+  ...state,
+  bestCombo: state.bestCombo ?? state.comboCount ?? 0,
+});
+
+// Snapshots that don't hold a board are dropped rather than failing the save
+const toSnapshots = (value: unknown): Snapshot[] =>
+  asArray(value).flatMap((snapshot) =>
+    isRecord(snapshot) && isStoredState(snapshot.state)
+      ? [{ ...(snapshot as unknown as Snapshot), state: withBestCombo(snapshot.state) }]
+      : []
+  );
+
+const migrate = (raw: unknown): SavedGame | null => {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || raw.version > SAVE_VERSION) return null;
+
+  let save: RawSave = { ...raw, version: raw.version };
+  while (save.version < SAVE_VERSION) {
+    const upgrade = MIGRATIONS[save.version];
+    if (!upgrade) return null;
+    save = { ...upgrade(save), version: save.version + 1 };
+  }
+
+  const { state, boardSize, rng, recording, undoPolicy } = save;
+  if (!isStoredState(state) || typeof boardSize !== 'number') return null;
+  if (!isRecord(rng) || !isRecord(recording)) return null;
+
+  return {
+    version: SAVE_VERSION,
+    boardSize,
+    gameMode: isGameModeId(save.gameMode) ? save.gameMode : 'classic',
+    ruleSet: isRuleSetId(save.ruleSet) ? save.ruleSet : 'classic',
+    gameTime: asNumber(save.gameTime, 0),
+    state: withBestCombo(state),
+    history: toSnapshots(save.history),
+    future: toSnapshots(save.future),
+    undoPolicy: UNDO_POLICIES.find((policy) => policy === undoPolicy) ?? 'limited',
+    keepSpawns: save.keepSpawns === true,
+    undosRemaining: asNumber(save.undosRemaining, 0),
+    undosUsed: asNumber(save.undosUsed, 0),
+    rng: rng as unknown as Rng,
+    recording: recording as unknown as GameRecording,
+    dailyDate: typeof save.dailyDate === 'string' ? save.dailyDate : null,
+    chaos: isRecord(save.chaos) ? (save.chaos as unknown as ChaosRates) : null,
+  };
+};
+
+// The separate clock is newer than the one in the save whenever it's there
+const loadGameTime = (): number | null => {
+  const seconds = Number(localStorage.getItem(TIME_KEY) ?? NaN);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+};
+
+export const loadSavedGame = (): SavedGame | null => {
+  try {
+    const saved = localStorage.getItem(SAVE_KEY);
+    const save = saved ? migrate(JSON.parse(saved)) : null;
+    return save && { ...save, gameTime: loadGameTime() ?? save.gameTime };
+  } catch (e) {
+    // Corrupt save, start fresh
+    return null;
+  }
+};
+
+// A full or blocked localStorage only costs the save, never the game
+export const saveGame = (save: Omit<SavedGame, 'version'>) => {
+  const history = save.history.slice(-MAX_SAVED_HISTORY);
+  const future = save.future.slice(-MAX_SAVED_HISTORY);
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify({ version: SAVE_VERSION, ...save, history, future }));
+    localStorage.setItem(TIME_KEY, save.gameTime.toString());
+  } catch (e) {
+    // Quota exceeded or storage disabled; the previous save stays
+  }
+};
+
+export const saveGameTime = (seconds: number) => {
+  try {
+    localStorage.setItem(TIME_KEY, seconds.toString());
+  } catch (e) {
+    // Same as saveGame
+  }
+};
+
+export const clearSavedGame = () => {
+  localStorage.removeItem(SAVE_KEY);
+  localStorage.removeItem(TIME_KEY);
+};
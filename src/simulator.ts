@@ -0,0 +1,171 @@
+// ==================== BATCH SIMULATOR ====================
+// Plays many games headlessly with a chosen strategy, using the same engine
+// rules as the UI, and summarises the results.
+import { CLASSIC_OPTIONS, createGame, getHighestTile, move, slide } from './engine';
+import type { Direction, GameState, RandomSource } from './engine';
+import { createRng, toRandomSource } from './rng';
+import type { RuleSetId } from './rules';
+import { DIRECTIONS, findBestMove } from './solver';
+
+export type StrategyName = 'random' | 'corner' | 'expectimax';
+
+export type Strategy = (state: GameState, size: number, random: RandomSource) => Direction | null;
+
+export interface SimulationOptions {
+  strategy: StrategyName;
+  ruleSet: RuleSetId;
+  games: number;
+  size: number;
+  seed: number;
+  depth: number;
+  // Safety cap so a strategy that never loses can't run forever
+  maxMoves: number;
+}
+
+export interface GameSummary {
+  seed: number;
+  score: number;
+  highestTile: number;
+  moves: number;
+  reachedWin: boolean;
+}
+
+export interface Distribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+  stdDev: number;
+}
+
+export interface SimulationReport {
+  options: SimulationOptions;
+  score: Distribution;
+  highestTiles: Record<number, number>;
+  averageMoves: number;
+  winRate: number;
+  games: GameSummary[];
+}
+
+export const DEFAULT_OPTIONS: SimulationOptions = {
+  strategy: 'corner',
+  ruleSet: 'classic',
+  games: 1000,
+  size: 4,
+  seed: 1,
+  depth: 2,
+  maxMoves: 100000,
+};
+
+// ==================== STRATEGIES ====================
+const legalMoves = (state: GameState, size: number, ruleSet: RuleSetId): Direction[] =>
+  DIRECTIONS.filter((direction) => slide(state, direction, size, ruleSet).moved);
+
+// Keeps the biggest tiles packed into the bottom-left corner, only moving up
+// when nothing else is possible
+const CORNER_PRIORITY: Direction[] = ['down', 'left', 'right', 'up'];
+
+export const createStrategy = (name: StrategyName, depth: number, ruleSet: RuleSetId = 'classic'): Strategy => {
+  switch (name) {
+    case 'random':
+      return (state, size, random) => {
+        const moves = legalMoves(state, size, ruleSet);
+        return moves.length ? moves[Math.floor(random() * moves.length)] : null;
+      };
+    case 'corner':
+      return (state, size) => {
+        const moves = legalMoves(state, size, ruleSet);
+        return CORNER_PRIORITY.find((direction) => moves.includes(direction)) ?? null;
+      };
+    case 'expectimax':
+      return (state, size) => findBestMove(state, size, depth, ruleSet).direction;
+  }
+};
+
+// ==================== SIMULATION ====================
+export const playGame = (
+  strategy: Strategy,
+  size: number,
+  seed: number,
+  maxMoves: number,
+  ruleSet: RuleSetId = 'classic'
+): GameSummary => {
+  const spawnRandom = toRandomSource(createRng(seed));
+  // Strategies draw from their own stream so they never shift the spawns
+  const strategyRandom = toRandomSource(createRng(seed ^ 0x9e3779b9));
+  const options = { ...CLASSIC_OPTIONS, ruleSet };
+  let state = createGame(size, spawnRandom, ruleSet);
+
+  while (!state.gameOver && state.moves < maxMoves) {
+    const direction = strategy(state, size, strategyRandom);
+    if (!direction) break;
+    state = move(state, direction, size, spawnRandom, options).state;
+  }
+
+  return {
+    seed,
+    score: state.score,
+    highestTile: getHighestTile(state),
+    moves: state.moves,
+    reachedWin: state.won,
+  };
+};
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : 0;
+
+export const summarize = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / (sorted.length || 1);
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (sorted.length || 1);
+  return {
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    mean,
+    median: percentile(sorted, 0.5),
+    p10: percentile(sorted, 0.1),
+    p90: percentile(sorted, 0.9),
+    stdDev: Math.sqrt(variance),
+  };
+};
+
+export const runSimulation = (
+  options: SimulationOptions,
+  onProgress?: (completed: number, total: number) => void
+): SimulationReport => {
+  const strategy = createStrategy(options.strategy, options.depth, options.ruleSet);
+  const games: GameSummary[] = [];
+
+  for (let i = 0; i < options.games; i++) {
+    games.push(playGame(strategy, options.size, (options.seed + i) >>> 0, options.maxMoves, options.ruleSet));
+    onProgress?.(i + 1, options.games);
+  }
+
+  const highestTiles: Record<number, number> = {};
+  games.forEach((g) => {
+    highestTiles[g.highestTile] = (highestTiles[g.highestTile] || 0) + 1;
+  });
+
+  return {
+    options,
+    score: summarize(games.map((g) => g.score)),
+    highestTiles,
+    averageMoves: games.reduce((sum, g) => sum + g.moves, 0) / (games.length || 1),
+    winRate: games.filter((g) => g.reachedWin).length / (games.length || 1),
+    games,
+  };
+};
+
+// ==================== REPORTS ====================
+export const toJson = (report: SimulationReport): string => JSON.stringify(report, null, 2);
+
+// One row per game, so the CSV can be pivoted in a spreadsheet
+export const toCsv = (report: SimulationReport): string => {
+  const header = 'game,seed,score,highestTile,moves,reachedWin';
+  const rows = report.games.map((g, i) =>
+    [i + 1, g.seed, g.score, g.highestTile, g.moves, g.reachedWin].join(',')
+  );
+  return [header, ...rows].join('\n') + '\n';
+};
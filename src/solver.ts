@@ -0,0 +1,161 @@
+// ==================== EXPECTIMAX SOLVER ====================
+// Searches player moves (max nodes) and tile spawns (chance nodes) using the
+// engine's own slide/placeTile rules, scoring leaves with a board heuristic.
+import { buildGrid, getEmptyCells, placeTile, slide } from './engine';
+import type { Direction, GameState } from './engine';
+import { RULE_SETS } from './rules';
+import type { RuleSetId } from './rules';
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export const DIFFICULTY_DEPTH: Record<Difficulty, number> = {
+  easy: 1,
+  normal: 2,
+  hard: 3,
+};
+
+export const DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+
+export interface SolverRequest {
+  id: number;
+  state: GameState;
+  size: number;
+  depth: number;
+  ruleSet: RuleSetId;
+}
+
+export interface SolverResult {
+  direction: Direction | null;
+  scores: Partial<Record<Direction, number>>;
+}
+
+export interface SolverResponse extends SolverResult {
+  id: number;
+}
+
+// Chance branches less likely than this are scored directly instead of
+// searched, so crowded boards stay shallow and nearly full ones go deep
+const MIN_PROBABILITY = 0.001;
+
+const WEIGHTS = {
+  empty: 2.7,
+  monotonicity: 1.0,
+  smoothness: 0.1,
+  max: 1.0,
+};
+
+// ==================== HEURISTIC ====================
+// Ranks rather than values, so the weights suit every rule set. Chaos tiles
+// have no value and rank 0.
+const toRanks = (state: GameState, size: number, ruleSet: RuleSetId): number[][] => {
+  const { rank } = RULE_SETS[ruleSet];
+  return buildGrid(state.tiles, size).map((row) => row.map((t) => (t && t.value ? rank(t.value) : 0)));
+};
+
+// Penalises lines that change direction, rewarding boards that rise steadily
+// toward one edge in both axes
+const monotonicity = (ranks: number[][], size: number): number => {
+  const totals = [0, 0, 0, 0];
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size - 1; j++) {
+      const rowDiff = ranks[i][j + 1] - ranks[i][j];
+      if (rowDiff > 0) totals[0] -= rowDiff;
+      else totals[1] += rowDiff;
+
+      const colDiff = ranks[j + 1][i] - ranks[j][i];
+      if (colDiff > 0) totals[2] -= colDiff;
+      else totals[3] += colDiff;
+    }
+  }
+  return Math.max(totals[0], totals[1]) + Math.max(totals[2], totals[3]);
+};
+
+// Penalises rank gaps between neighbours, since equal neighbours can merge
+const smoothness = (ranks: number[][], size: number): number => {
+  let total = 0;
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const rank = ranks[row][col];
+      if (!rank) continue;
+      if (col < size - 1 && ranks[row][col + 1]) total -= Math.abs(rank - ranks[row][col + 1]);
+      if (row < size - 1 && ranks[row + 1][col]) total -= Math.abs(rank - ranks[row + 1][col]);
+    }
+  }
+  return total;
+};
+
+export const evaluate = (state: GameState, size: number, ruleSet: RuleSetId = 'classic'): number => {
+  const ranks = toRanks(state, size, ruleSet);
+  const empty = size * size - state.tiles.length;
+  const max = ranks.reduce((m, row) => Math.max(m, ...row), 0);
+
+  return (
+    WEIGHTS.empty * Math.log(empty + 1) +
+    WEIGHTS.monotonicity * monotonicity(ranks, size) +
+    WEIGHTS.smoothness * smoothness(ranks, size) +
+    WEIGHTS.max * max
+  );
+};
+
+// ==================== SEARCH ====================
+interface SearchContext {
+  size: number;
+  ruleSet: RuleSetId;
+  // Spawn values with probabilities summing to 1
+  spawns: { value: number; probability: number }[];
+}
+
+const maxNode = (state: GameState, ctx: SearchContext, depth: number, probability: number): number => {
+  let best = -Infinity;
+  for (const direction of DIRECTIONS) {
+    const result = slide(state, direction, ctx.size, ctx.ruleSet);
+    if (!result.moved) continue;
+    best = Math.max(best, chanceNode(result.state, ctx, depth, probability));
+  }
+  // No legal move: the game is over, which is worse than any live board
+  return best === -Infinity ? -1e6 : best;
+};
+
+const chanceNode = (state: GameState, ctx: SearchContext, depth: number, probability: number): number => {
+  const emptyCells = getEmptyCells(state, ctx.size);
+  if (depth <= 1 || emptyCells.length === 0 || probability < MIN_PROBABILITY) {
+    return evaluate(state, ctx.size, ctx.ruleSet);
+  }
+
+  let total = 0;
+  for (const cell of emptyCells) {
+    for (const { value, probability: odds } of ctx.spawns) {
+      const branch = odds / emptyCells.length;
+      const next = placeTile(state, { ...cell, value }).state;
+      total += branch * maxNode(next, ctx, depth - 1, probability * branch);
+    }
+  }
+  return total;
+};
+
+export const findBestMove = (
+  state: GameState,
+  size: number,
+  depth: number,
+  ruleSet: RuleSetId = 'classic'
+): SolverResult => {
+  const { spawns } = RULE_SETS[ruleSet];
+  const totalWeight = spawns.reduce((sum, s) => sum + s.weight, 0);
+  const ctx: SearchContext = {
+    size,
+    ruleSet,
+    spawns: spawns.map(({ value, weight }) => ({ value, probability: weight / totalWeight })),
+  };
+  const scores: Partial<Record<Direction, number>> = {};
+  let direction: Direction | null = null;
+
+  for (const candidate of DIRECTIONS) {
+    const result = slide(state, candidate, size, ruleSet);
+    if (!result.moved) continue;
+    const score = chanceNode(result.state, ctx, depth, 1);
+    scores[candidate] = score;
+    if (direction === null || score > scores[direction]!) direction = candidate;
+  }
+
+  return { direction, scores };
+};
@@ -0,0 +1,11 @@
+// ==================== SOLVER WORKER ====================
+// Runs the expectimax search off the main thread so animations and the game
+// timer keep ticking while the AI thinks.
+import { findBestMove } from './solver';
+import type { SolverRequest, SolverResponse } from './solver';
+
+self.onmessage = (e: MessageEvent<SolverRequest>) => {
+  const { id, state, size, depth, ruleSet } = e.data;
+  const response: SolverResponse = { id, ...findBestMove(state, size, depth, ruleSet) };
+  self.postMessage(response);
+};
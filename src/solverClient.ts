@@ -0,0 +1,70 @@
+// ==================== SOLVER CLIENT ====================
+// Promise wrapper around the solver worker. Falls back to searching on the
+// main thread where workers are unavailable or the worker fails.
+import { findBestMove } from './solver';
+import type { SolverRequest, SolverResponse, SolverResult } from './solver';
+import type { GameState } from './engine';
+import type { RuleSetId } from './rules';
+
+export class SolverClient {
+  private worker: Worker | null = null;
+  // Set once the worker has failed, so later searches go straight inline
+  private workerFailed = false;
+  private nextId = 0;
+  // Requests are kept so they can be searched inline if the worker fails
+  private pending = new Map<number, { request: SolverRequest; resolve: (result: SolverResult) => void }>();
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed || typeof Worker === 'undefined') return this.worker;
+    try {
+      this.worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<SolverResponse>) => {
+        const job = this.pending.get(e.data.id);
+        this.pending.delete(e.data.id);
+        job?.resolve(e.data);
+      };
+      this.worker.onerror = (e) => {
+        e.preventDefault();
+        this.failWorker();
+      };
+      this.worker.onmessageerror = () => this.failWorker();
+    } catch (e) {
+      // Worker construction blocked, search inline instead
+      this.worker = null;
+    }
+    return this.worker;
+  }
+
+  // The worker failed to load, threw or sent something unreadable. Drops it
+  // and answers everything still waiting on the main thread.
+  private failWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+    const jobs = [...this.pending.values()];
+    this.pending.clear();
+    jobs.forEach(({ request, resolve }) => {
+      const { state, size, depth, ruleSet } = request;
+      resolve(findBestMove(state, size, depth, ruleSet));
+    });
+  }
+
+  findBestMove(state: GameState, size: number, depth: number, ruleSet: RuleSetId): Promise<SolverResult> {
+    const worker = this.getWorker();
+    if (!worker) return Promise.resolve(findBestMove(state, size, depth, ruleSet));
+
+    const request: SolverRequest = { id: this.nextId++, state, size, depth, ruleSet };
+    return new Promise((resolve) => {
+      this.pending.set(request.id, { request, resolve });
+      worker.postMessage(request);
+    });
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.clear();
+  }
+}
+
+export const solverClient = new SolverClient();
@@ -0,0 +1,431 @@
+// ==================== THEME SYSTEM ====================
+// Built-in palettes plus user-made custom themes. Custom themes share the same
+// schema, are validated on import and live in localStorage.
+
+export type BuiltinTheme = 'light' | 'dark' | 'neon' | 'sunset' | 'ocean' | 'forest';
+
+// Built-in ids, or `custom-<n>` for user themes
+export type Theme = string;
+
+export interface ThemePalette {
+  name: string;
+  icon: string;
+  background: string;
+  boardBg: string;
+  cellBg: string;
+  text: string;
+  textSecondary: string;
+  buttonBg?: string;
+  buttonHover?: string;
+  logoTile?: string;
+  scoreBg?: string;
+  // Tile value to background color
+  tiles: Record<number, string>;
+}
+
+export interface CustomTheme extends ThemePalette {
+  id: Theme;
+}
+
+export const THEME_TILE_VALUES = [2, 4, 8, 16, 32, 64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384];
+
+const BUILTIN_THEMES: Record<BuiltinTheme, ThemePalette> = {
+  dark: {
+    name: 'Midnight',
+    icon: '🌙',
+    background: 'linear-gradient(135deg, #0f0f1e 0%, #1a1a2e 100%)',
+    boardBg: '#16213e',
+    cellBg: '#0f1626',
+    text: '#ffffff',
+    textSecondary: '#a0a0c0',
+    tiles: {
+      2: '#2d3561',
+      4: '#3d4785',
+      8: '#4a5899',
+      16: '#5e6bbd',
+      32: '#7280e3',
+      64: '#8a96ff',
+      128: '#a0b0ff',
+      256: '#b8c5ff',
+      512: '#d0daff',
+      1024: '#e8ecff',
+      2048: '#ffffff',
+      4096: '#fff0f0',
+      8192: '#ffe0e0',
+      16384: '#ffd0d0',
+    },
+  },
+  light: {
+    name: 'Classic',
+    icon: '☀️',
+    background: '#faf8ef',
+    boardBg: '#bbada0',
+    cellBg: '#cdc1b4',
+    text: '#776e65',
+    textSecondary: '#8f8579',
+    buttonBg: '#8f7a66',
+    buttonHover: '#9f8a76',
+    logoTile: '#edc22e',
+    scoreBg: '#bbada0',
+    tiles: {
+      2: '#eee4da',
+      4: '#ede0c8',
+      8: '#f2b179',
+      16: '#f59563',
+      32: '#f67c5f',
+      64: '#f65e3b',
+      128: '#edcf72',
+      256: '#edcc61',
+      512: '#edc850',
+      1024: '#edc53f',
+      2048: '#edc22e',
+      4096: '#3c3a32',
+      8192: '#3c3a32',
+      16384: '#3c3a32',
+    },
+  },
+  neon: {
+    name: 'Neon Dreams',
+    icon: '💎',
+    background: 'linear-gradient(135deg, #000000 0%, #1a0033 100%)',
+    boardBg: '#1a0033',
+    cellBg: '#2d0052',
+    text: '#00ffff',
+    textSecondary: '#ff00ff',
+    buttonBg: '#8000ff',
+    logoTile: '#ff00ff',
+    scoreBg: '#2d0052',
+    tiles: {
+      2: '#ff00ff',
+      4: '#ff0080',
+      8: '#ff0000',
+      16: '#ff8000',
+      32: '#ffff00',
+      64: '#00ff00',
+      128: '#00ff80',
+      256: '#00ffff',
+      512: '#0080ff',
+      1024: '#0000ff',
+      2048: '#8000ff',
+      4096: '#ff00ff',
+      8192: '#ff0080',
+      16384: '#ff0000',
+    },
+  },
+  sunset: {
+    name: 'Sunset Glow',
+    icon: '🌅',
+    background: '#fff5e6',
+    boardBg: '#d4a574',
+    cellBg: '#e8c4a0',
+    text: '#8b4513',
+    textSecondary: '#a0522d',
+    buttonBg: '#cd853f',
+    logoTile: '#ff6347',
+    scoreBg: '#d4a574',
+    tiles: {
+      2: '#ffe4b5',
+      4: '#ffd700',
+      8: '#ffa500',
+      16: '#ff8c00',
+      32: '#ff6347',
+      64: '#ff4500',
+      128: '#dc143c',
+      256: '#c71585',
+      512: '#8b008b',
+      1024: '#4b0082',
+      2048: '#ff1493',
+      4096: '#ff69b4',
+      8192: '#ff1493',
+      16384: '#c71585',
+    },
+  },
+  ocean: {
+    name: 'Ocean Depths',
+    icon: '🌊',
+    background: '#e6f7ff',
+    boardBg: '#4682b4',
+    cellBg: '#87ceeb',
+    text: '#003366',
+    textSecondary: '#1e4d7b',
+    buttonBg: '#5f9ea0',
+    logoTile: '#00ced1',
+    scoreBg: '#4682b4',
+    tiles: {
+      2: '#e0f7fa',
+      4: '#b2ebf2',
+      8: '#80deea',
+      16: '#4dd0e1',
+      32: '#26c6da',
+      64: '#00bcd4',
+      128: '#00acc1',
+      256: '#0097a7',
+      512: '#00838f',
+      1024: '#006064',
+      2048: '#00ffff',
+      4096: '#00e5ff',
+      8192: '#00b8d4',
+      16384: '#0097a7',
+    },
+  },
+  forest: {
+    name: 'Forest Mystique',
+    icon: '🌲',
+    background: '#f0f4e8',
+    boardBg: '#6b8e23',
+    cellBg: '#9acd32',
+    text: '#2d4a1f',
+    textSecondary: '#556b2f',
+    buttonBg: '#808000',
+    logoTile: '#32cd32',
+    scoreBg: '#6b8e23',
+    tiles: {
+      2: '#f0fff0',
+      4: '#e0f2e0',
+      8: '#c8e6c9',
+      16: '#a5d6a7',
+      32: '#81c784',
+      64: '#66bb6a',
+      128: '#4caf50',
+      256: '#43a047',
+      512: '#388e3c',
+      1024: '#2e7d32',
+      2048: '#00ff00',
+      4096: '#76ff03',
+      8192: '#64dd17',
+      16384: '#4caf50',
+    },
+  },
+};
+
+export const BUILTIN_THEME_ORDER: BuiltinTheme[] = ['light', 'dark', 'neon', 'sunset', 'ocean', 'forest'];
+
+// Registry of every theme the app can render, keyed by id. Custom themes are
+// merged in by setCustomThemes.
+export const themes: Record<Theme, ThemePalette> = { ...BUILTIN_THEMES };
+
+let customThemeIds: Theme[] = [];
+
+export const setCustomThemes = (custom: CustomTheme[]) => {
+  customThemeIds.forEach((id) => delete themes[id]);
+  customThemeIds = custom.map((t) => t.id);
+  custom.forEach(({ id, ...palette }) => {
+    themes[id] = palette;
+  });
+};
+
+export const getThemeOrder = (): Theme[] => [...BUILTIN_THEME_ORDER, ...customThemeIds];
+
+export const isCustomTheme = (id: Theme): boolean => customThemeIds.includes(id);
+
+export const createCustomThemeId = (): Theme => `custom-${Date.now().toString(36)}`;
+
+// ==================== STORAGE ====================
+export const loadCustomThemes = (): CustomTheme[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('zipperMergeCustomThemes') || '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((raw) => {
+      const result = validateTheme(raw);
+      return result.ok && typeof raw.id === 'string' ? [{ ...result.theme, id: raw.id }] : [];
+    });
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveCustomThemes = (custom: CustomTheme[]) => {
+  localStorage.setItem('zipperMergeCustomThemes', JSON.stringify(custom));
+};
+
+// ==================== VALIDATION ====================
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([^)]*\)|[a-z]+)$/i;
+
+const isColor = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value.trim()) return false;
+  if (typeof CSS !== 'undefined' && CSS.supports) return CSS.supports('color', value);
+  return COLOR_PATTERN.test(value.trim());
+};
+
+// Page backgrounds may also be gradients
+const isBackground = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value.trim()) return false;
+  if (typeof CSS !== 'undefined' && CSS.supports) return CSS.supports('background', value);
+  return isColor(value) || /gradient\(/.test(value);
+};
+
+const REQUIRED_COLORS = ['boardBg', 'cellBg', 'text', 'textSecondary'] as const;
+const OPTIONAL_COLORS = ['buttonBg', 'buttonHover', 'logoTile', 'scoreBg'] as const;
+
+export type ThemeValidation = { ok: true; theme: ThemePalette } | { ok: false; errors: string[] };
+
+type ColorKey = (typeof REQUIRED_COLORS)[number] | (typeof OPTIONAL_COLORS)[number];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const validateTheme = (raw: unknown): ThemeValidation => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { ok: false, errors: ['Theme must be a JSON object'] };
+
+  const { name, icon, background } = raw;
+  if (typeof name !== 'string' || !name.trim()) errors.push('name must be a non-empty string');
+  if (!isBackground(background)) errors.push('background must be a CSS color or gradient');
+  const colors: Partial<Record<ColorKey, string>> = {};
+  REQUIRED_COLORS.forEach((key) => {
+    const color = raw[key];
+    if (isColor(color)) colors[key] = color;
+    else errors.push(`${key} must be a CSS color`);
+  });
+  OPTIONAL_COLORS.forEach((key) => {
+    const color = raw[key];
+    if (isColor(color)) colors[key] = color;
+    else if (color !== undefined) errors.push(`${key} must be a CSS color`);
+  });
+
+  const tiles: Record<number, string> = {};
+  if (!isRecord(raw.tiles)) {
+    errors.push('tiles must map tile values to colors');
+  } else {
+    Object.entries(raw.tiles).forEach(([key, color]) => {
+      const value = Number(key);
+      if (!Number.isInteger(value) || value < 1) errors.push(`tiles key "${key}" is not a tile value`);
+      else if (!isColor(color)) errors.push(`tiles[${key}] must be a CSS color`);
+      else tiles[value] = color;
+    });
+    if (!tiles[2]) errors.push('tiles must include a color for 2');
+  }
+
+  // Anything missing was reported above; these checks narrow the types
+  const { boardBg, cellBg, text, textSecondary } = colors;
+  if (errors.length || typeof name !== 'string' || !isBackground(background)) return { ok: false, errors };
+  if (!boardBg || !cellBg || !text || !textSecondary) return { ok: false, errors };
+
+  const theme: ThemePalette = {
+    name: name.trim().slice(0, 40),
+    icon: typeof icon === 'string' && icon.trim() ? icon.trim().slice(0, 4) : '🎨',
+    background,
+    boardBg,
+    cellBg,
+    text,
+    textSecondary,
+    tiles,
+  };
+  OPTIONAL_COLORS.forEach((key) => {
+    const color = colors[key];
+    if (color !== undefined) theme[key] = color;
+  });
+  return { ok: true, theme };
+};
+
+export const parseThemeJson = (json: string): ThemeValidation => {
+  try {
+    return validateTheme(JSON.parse(json));
+  } catch (e) {
+    return { ok: false, errors: ['Not valid JSON'] };
+  }
+};
+
+export const exportThemeJson = (theme: ThemePalette): string => JSON.stringify(theme, null, 2);
+
+// ==================== CONTRAST ====================
+const parseHex = (color: string): [number, number, number] | null => {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, (c) => c + c) : match[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+const luminance = ([r, g, b]: [number, number, number]): number => {
+  const [lr, lg, lb] = [r, g, b].map((c) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+// WCAG contrast ratio, or null when either color isn't plain hex
+export const contrastRatio = (a: string, b: string): number | null => {
+  const ca = parseHex(a);
+  const cb = parseHex(b);
+  if (!ca || !cb) return null;
+  const [hi, lo] = [luminance(ca), luminance(cb)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+// Tile numbers are large bold text, so WCAG's 3:1 large-text minimum applies
+export const MIN_TILE_CONTRAST = 3;
+
+// Matches how Tile picks its text color
+export const tileTextColor = (palette: ThemePalette, value: number): string =>
+  value > 4 ? '#fff' : palette.text;
+
+// ==================== GENERATED TILE COLORS ====================
+type Hsl = [number, number, number];
+
+const toHsl = ([r, g, b]: [number, number, number]): Hsl => {
+  const [rs, gs, bs] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rs, gs, bs);
+  const min = Math.min(rs, gs, bs);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h =
+    max === rs ? (gs - bs) / d + (gs < bs ? 6 : 0) : max === gs ? (bs - rs) / d + 2 : (rs - gs) / d + 4;
+  return [h * 60, s, l];
+};
+
+const toHex = ([h, s, l]: Hsl): string => {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const c = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255)
+      .toString(16)
+      .padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+// Hue turn per doubling when the palette's own ramp is too flat to follow
+const MIN_HUE_STEP = 40;
+// Generated tiles stay saturated enough that neighbouring ranks look different
+const MIN_GENERATED_SATURATION = 0.45;
+
+// Palette colors stop at 16384 (custom themes may stop sooner). Past the last
+// defined value the hue keeps turning in the direction the palette's top two
+// colors were heading, darkening as needed so the white number stays readable.
+export const getTileColor = (palette: ThemePalette, value: number): string => {
+  if (palette.tiles[value]) return palette.tiles[value];
+
+  const defined = Object.keys(palette.tiles)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const below = defined.filter((v) => v < value);
+  if (!below.length) return palette.tiles[defined[0]] ?? palette.cellBg;
+
+  const top = below[below.length - 1];
+  // A gap inside the palette reuses the nearest lower color
+  if (top !== defined[defined.length - 1]) return palette.tiles[top];
+
+  const topRgb = parseHex(palette.tiles[top]);
+  if (!topRgb) return palette.tiles[top];
+  const [hue, saturation, lightness] = toHsl(topRgb);
+
+  const previousRgb = below.length > 1 ? parseHex(palette.tiles[below[below.length - 2]]) : null;
+  let step = previousRgb ? ((hue - toHsl(previousRgb)[0] + 540) % 360) - 180 : 0;
+  if (Math.abs(step) < MIN_HUE_STEP) step = step < 0 ? -MIN_HUE_STEP : MIN_HUE_STEP;
+
+  const ranks = Math.round(Math.log2(value / top));
+  let color: Hsl = [
+    (((hue + step * ranks) % 360) + 360) % 360,
+    Math.max(saturation, MIN_GENERATED_SATURATION),
+    Math.min(lightness, 0.5),
+  ];
+  while (color[2] > 0.1 && (contrastRatio(toHex(color), '#fff') ?? 0) < MIN_TILE_CONTRAST) {
+    color = [color[0], color[1], color[2] - 0.05];
+  }
+  return toHex(color);
+};
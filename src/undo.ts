@@ -0,0 +1,44 @@
+// ==================== UNDO ====================
+// How many undos a game gets, and the snapshots undo and redo step between.
+// A snapshot keeps the generator as it was, so stepping back can replay the
+// same spawns instead of rolling new ones.
+import type { GameState } from './engine';
+import type { RecordedMove } from './recording';
+import type { Rng } from './rng';
+
+// none: no undo at all; limited: a fixed number per game; earned: one for
+// every big merge; unlimited: practice, as many as you like
+export type UndoPolicy = 'none' | 'limited' | 'earned' | 'unlimited';
+
+export interface UndoSettings {
+  policy: UndoPolicy;
+  // Undos per game under the limited policy
+  limit: number;
+  // Rewind the generator on undo, so undo can't be used to fish for spawns
+  keepSpawns: boolean;
+}
+
+export const DEFAULT_UNDO_SETTINGS: UndoSettings = { policy: 'limited', limit: 3, keepSpawns: false };
+
+export const UNDO_LIMITS = [1, 3, 5, 10];
+
+// Under the earned policy, every merge into this tile or higher earns an
+// undo. Compared as the classic equivalent so every rule set earns alike.
+export const EARN_UNDO_TILE = 256;
+
+// Saved games keep only the latest snapshots so they fit in localStorage
+export const MAX_SAVED_HISTORY = 100;
+
+export interface Snapshot {
+  state: GameState;
+  rng: Rng;
+  // The recorded move that led from the previous position to this one, kept
+  // on redo snapshots so the recording can be restored
+  move?: RecordedMove;
+}
+
+export const getStartingUndos = (settings: UndoSettings): number =>
+  settings.policy === 'limited' ? settings.limit : 0;
+
+export const canUndo = (policy: UndoPolicy, undosRemaining: number, history: Snapshot[]): boolean =>
+  history.length > 0 && (policy === 'unlimited' || (policy !== 'none' && undosRemaining > 0));